@@ -1,17 +1,54 @@
-import { useState, useCallback, memo, useEffect } from 'react'
-import { Box, Typography, CssBaseline, ThemeProvider, createTheme, Paper, Backdrop, CircularProgress, Stack } from '@mui/material'
+import { useState, useCallback, memo, useEffect, useMemo, useRef } from 'react'
+import {
+  Box, Typography, CssBaseline, ThemeProvider, createTheme, Paper, Backdrop, CircularProgress, Stack, Snackbar, Alert
+} from '@mui/material'
 import ScoreDisplay from './components/ScoreDisplay'
 import PianoKeyboard from './components/PianoKeyboard'
 import ControlPanel from './components/ControlPanel'
 import ScoreRenameDialog from './components/ScoreRenameDialog'
+import PracticePanel from './components/PracticePanel'
+import RecordingsDialog from './components/RecordingsDialog'
+import PerformanceReportDialog from './components/PerformanceReportDialog'
+import PracticeStatsDialog from './components/PracticeStatsDialog'
+import TempoTrainerDialog from './components/TempoTrainerDialog'
+import KeyboardShortcutsDialog from './components/KeyboardShortcutsDialog'
+import BackupDialog from './components/BackupDialog'
+import SettingsPresetsDialog from './components/SettingsPresetsDialog'
+import MeasureContextMenu, { MeasureContextMenuState } from './components/MeasureContextMenu'
+import ScoreLibraryDialog from './components/ScoreLibraryDialog'
+import ScoreOrganizeDialog from './components/ScoreOrganizeDialog'
+import ScoreHistoryDialog from './components/ScoreHistoryDialog'
+import UploadConflictDialog from './components/UploadConflictDialog'
 import { useMidi } from './hooks/useMidi'
+import { useMidiOutput } from './hooks/useMidiOutput'
 import { usePianoSound } from './hooks/usePianoSound'
 import { useWakeLock } from './hooks/useWakeLock'
 import { useScoreLibrary } from './hooks/useScoreLibrary'
 import { usePianoSettings } from './hooks/usePianoSettings'
-import { SavedScore, SelectionResult } from './types/piano'
+import { useSettingsPresets } from './hooks/useSettingsPresets'
+import { useWaitMode } from './hooks/useWaitMode'
+import { usePlayback } from './hooks/usePlayback'
+import { useMidiRecorder } from './hooks/useMidiRecorder'
+import { usePracticeLog } from './hooks/usePracticeLog'
+import { useMetronome } from './hooks/useMetronome'
+import { DEFAULT_TEMPO_LADDER, useTempoTrainer } from './hooks/useTempoTrainer'
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
+import {
+  LoopRange, MeasureContext, MidiEventPayload, MidiRecording, PerformanceReport, ScoreColumn, ScoreMetadata, SelectionResult, SystemScrollRequest,
+  TempoTrainerProgress
+} from './types/piano'
 import { DEFAULT_SOUND_FONT_ID, SOUND_FONT_PRESETS, SoundFontOption } from './data/soundFonts'
 import { deleteUserSoundFont, listUserSoundFonts, saveUserSoundFont } from './utils/soundFontStorage'
+import { deleteRecordingsForScore } from './utils/recordingStorage'
+import { deletePracticeSessionsForScore } from './utils/practiceSessionStorage'
+import { encodeMidiFile, MidiFileFormat } from './utils/midiFile'
+import { downloadBlob, toSafeFileName } from './utils/download'
+import { getLibraryFolders, getLibraryTags } from './utils/scoreLibrary'
+import { isPresetActive } from './utils/settingsPresets'
+import { analyzePerformance } from './utils/performanceAnalysis'
+import {
+  buildColumnSelections, buildScoreColumns, createColumnSelection, filterColumnsByHand, findColumnIndex, getLoopBounds
+} from './utils/scoreColumns'
 
 const theme = createTheme({
   palette: {
@@ -25,29 +62,172 @@ const theme = createTheme({
 // Memoized ScoreDisplay to prevent unnecessary re-renders
 const MemoizedScoreDisplay = memo(ScoreDisplay);
 const EMPTY_NOTES = new Set<number>();
+const KEYBOARD_AREA_HEIGHT = 140; // 画面下に固定した鍵盤の領域
 
 function App() {
-  const { settings, updateSetting, resetSettings, showAllLines, showGuideLines } = usePianoSettings();
+  // Custom Hooks
+  const { 
+    scoreLibrary, currentScoreId, scoreData, isLoading, setIsLoading, storageUsage, refreshStorageUsage, storageError, clearStorageError,
+    handleFileUpload, handleScoreChange, handleDeleteScore, reloadLibrary, renameScore, updateScoreNameFromTitle, updateScoreTempoTrainer,
+    updateScoreOrganization, toggleFavorite, libraryNotice, clearLibraryNotice, uploadConflict, resolveUploadConflict,
+    restoreScoreVersion, removeScoreVersion, updateScoreSettingsProfile
+  } = useScoreLibrary();
+  const currentScore = scoreLibrary.find((score) => score.id === currentScoreId) ?? null;
+  const {
+    settings, globalSettings, updateSetting, resetSettings, replaceSettings, showAllLines, showGuideLines, scoreSettingKeys,
+    canBindScoreSettings, toggleScoreSetting, applySettings, settingsRepairs, clearSettingsRepairs
+  } = usePianoSettings(
+    currentScore?.settingsProfile,
+    currentScore ? (profile) => updateScoreSettingsProfile(currentScore.id, profile) : undefined
+  );
+  const { presets, savePreset, deletePreset, importPreset, exportPreset } = useSettingsPresets();
+  const [presetsDialogOpen, setPresetsDialogOpen] = useState(false);
+  const activePresetId = useMemo(
+    () => presets.find((preset) => isPresetActive(preset, globalSettings))?.id ?? null,
+    [presets, globalSettings]
+  );
   const [soundFontOptions, setSoundFontOptions] = useState<SoundFontOption[]>(
     SOUND_FONT_PRESETS.map((preset) => ({ id: preset.id, name: preset.name, source: 'bundled' as const }))
   );
   const [isSoundFontOptionsReady, setIsSoundFontOptionsReady] = useState(false);
   
+  const { availableOutputs: availableMidiOutputs, send: sendMidiOut } = useMidiOutput(settings.midiOutputId);
   const { 
-    isAudioStarted, isSamplesLoaded, audioEngine, startAudio, playNotes, handleMidiEvent
-  } = usePianoSound(settings, updateSetting);
+    isAudioStarted, isSamplesLoaded, audioEngine, startAudio, playNotes, handleMidiEvent, noteOn, noteOff, allNotesOff, playClick,
+    getAudioTime, scheduleClick
+  } = usePianoSound(settings, updateSetting, sendMidiOut);
+
+
+  const [playbackTempo, setPlaybackTempo] = useState(100);
+  const recorder = useMidiRecorder(currentScoreId, playbackTempo);
+  const { capture: captureMidiEvent } = recorder;
+  const [recordingsDialogOpen, setRecordingsDialogOpen] = useState(false);
+  const [performanceReport, setPerformanceReport] = useState<PerformanceReport | null>(null);
+  const [reportDialogOpen, setReportDialogOpen] = useState(false);
+
+  const practiceLog = usePracticeLog(currentScoreId);
+  const { logActivity } = practiceLog;
+  const [statsDialogOpen, setStatsDialogOpen] = useState(false);
+  const practiceMeasureRef = useRef<number | null>(null);
+  const trainerCaptureRef = useRef<((event: MidiEventPayload) => void) | null>(null);
+
+  const handleLiveMidiEvent = useCallback((event: MidiEventPayload) => {
+    captureMidiEvent(event);
+    trainerCaptureRef.current?.(event);
+    handleMidiEvent(event);
+    if (event.type === 'note-on') {
+      const measure = practiceMeasureRef.current;
+      logActivity({ notes: 1, measures: measure !== null ? [measure] : [] });
+    }
+  }, [captureMidiEvent, handleMidiEvent, logActivity]);
 
-  const { activeNotes, availableDevices, selectedDeviceId, selectDevice } = useMidi(handleMidiEvent, startAudio);
+  const { activeNotes, availableDevices, computerKeyboard, injectMessage, selectedDeviceId, selectDevice } = useMidi(handleLiveMidiEvent, startAudio);
   const { keepAwake } = useWakeLock();
-  
-  // Custom Hooks
-  const { 
-    scoreLibrary, currentScoreId, scoreData, isLoading, setIsLoading,
-    handleFileUpload, handleScoreChange, handleDeleteScore, renameScore, updateScoreNameFromTitle
-  } = useScoreLibrary();
+
+  const currentScoreName = currentScoreId === 'sample'
+    ? 'Sample: Grand Staff'
+    : currentScoreId === 'clef-sample'
+      ? 'Sample: Clef Change'
+      : currentScore?.name ?? currentScoreId;
 
   // Local State for Interaction
   const [selected, setSelected] = useState<SelectionResult | null>(null);
+  const [scoreContexts, setScoreContexts] = useState<MeasureContext[]>([]);
+  const scoreColumns = useMemo(
+    () => filterColumnsByHand(buildScoreColumns(scoreContexts), settings.practiceHand),
+    [scoreContexts, settings.practiceHand]
+  );
+
+  // A–B loop
+  const [loopRange, setLoopRange] = useState<LoopRange | null>(null);
+  const [isPickingLoop, setIsPickingLoop] = useState(false);
+  const [loopPickStart, setLoopPickStart] = useState<number | null>(null);
+  const [loopCountIn, setLoopCountIn] = useState(false);
+  const loopBounds = useMemo(
+    () => getLoopBounds(scoreContexts, scoreColumns, loopRange),
+    [scoreContexts, scoreColumns, loopRange]
+  );
+
+  const waitMode = useWaitMode(scoreColumns, activeNotes, settings.visualTranspose, loopBounds);
+  const { stop: stopWaitMode } = waitMode;
+
+  const playbackOptions = useMemo(() => ({
+    tempo: playbackTempo,
+    visualTranspose: settings.visualTranspose,
+    startAudio,
+    noteOn,
+    noteOff,
+    allNotesOff,
+    playClick,
+    loop: loopBounds,
+    countIn: loopCountIn
+  }), [playbackTempo, settings.visualTranspose, startAudio, noteOn, noteOff, allNotesOff, playClick, loopBounds, loopCountIn]);
+  const playback = usePlayback(scoreColumns, playbackOptions);
+  const { stop: stopPlayback } = playback;
+
+  const metronomeOptions = useMemo(() => ({
+    tempo: playbackTempo,
+    followScoreTempo: settings.metronomeFollowScoreTempo,
+    subdivision: settings.metronomeSubdivision,
+    countInBars: settings.metronomeCountInBars,
+    startAudio,
+    getAudioTime,
+    scheduleClick
+  }), [playbackTempo, settings.metronomeFollowScoreTempo, settings.metronomeSubdivision, settings.metronomeCountInBars, startAudio, getAudioTime, scheduleClick]);
+  const metronome = useMetronome(scoreContexts, metronomeOptions);
+  const { stop: stopMetronome } = metronome;
+
+  // サンプル楽譜はライブラリに無いため、テンポラダーの進捗はこのセッション中だけ保持する
+  const [sampleTrainerProgress, setSampleTrainerProgress] = useState<TempoTrainerProgress | null>(null);
+  const trainerProgress = currentScore ? currentScore.tempoTrainer ?? null : sampleTrainerProgress;
+  const [trainerDialogOpen, setTrainerDialogOpen] = useState(false);
+  const handleTrainerProgressChange = (progress: TempoTrainerProgress) => {
+    if (currentScore) updateScoreTempoTrainer(currentScore.id, progress);
+    else setSampleTrainerProgress(progress);
+  };
+  const trainer = useTempoTrainer({
+    scoreId: currentScoreId,
+    contexts: scoreContexts,
+    columns: scoreColumns,
+    loopRange,
+    loopBounds,
+    visualTranspose: settings.visualTranspose,
+    countInBars: settings.metronomeCountInBars,
+    progress: trainerProgress,
+    onProgressChange: handleTrainerProgressChange,
+    startMetronome: metronome.start,
+    stopMetronome
+  });
+  const { stop: stopTrainer } = trainer;
+  const isTrainerProgressForLoop = !!trainerProgress && !!loopRange &&
+    trainerProgress.range.startMeasure === loopRange.startMeasure && trainerProgress.range.endMeasure === loopRange.endMeasure;
+
+  useEffect(() => {
+    trainerCaptureRef.current = trainer.capture;
+  }, [trainer.capture]);
+
+  let cursorColumn: ScoreColumn | null = null;
+  if (waitMode.isEnabled) cursorColumn = scoreColumns[waitMode.cursorIndex] ?? null;
+  else if (playback.state !== 'stopped') cursorColumn = scoreColumns[playback.positionIndex] ?? null;
+
+  // カーソル駆動モード中はカーソル位置の列を選択として表示する
+  const displayedSelection = useMemo(
+    () => cursorColumn ? createColumnSelection(cursorColumn, settings.visualTranspose) : selected,
+    [cursorColumn, selected, settings.visualTranspose]
+  );
+
+  // 打鍵時にどの小節を練習しているかを練習ログへ渡す
+  useEffect(() => {
+    practiceMeasureRef.current = displayedSelection?.measure.measureNumber ?? null;
+  }, [displayedSelection]);
+
+  // Library dialogs
+  const [libraryDialogOpen, setLibraryDialogOpen] = useState(false);
+  const [organizingScore, setOrganizingScore] = useState<ScoreMetadata | null>(null);
+  const [historyScoreId, setHistoryScoreId] = useState<string | null>(null);
+  const historyScore = scoreLibrary.find((score) => score.id === historyScoreId) ?? null;
+  const libraryFolders = useMemo(() => getLibraryFolders(scoreLibrary), [scoreLibrary]);
+  const libraryTags = useMemo(() => getLibraryTags(scoreLibrary), [scoreLibrary]);
 
   // Rename dialog state
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -100,11 +280,144 @@ function App() {
     setSelected(null);
   }, []);
 
+  // 楽譜や練習する手が変わると列の並びが変わるため、カーソル駆動モードを止める
+  useEffect(() => {
+    stopWaitMode();
+    stopPlayback();
+  }, [currentScoreId, settings.practiceHand, stopWaitMode, stopPlayback]);
+
+  useEffect(() => {
+    stopMetronome();
+  }, [currentScoreId, stopMetronome]);
+
+  // テンポラダーの進捗がある楽譜では、その範囲をループとして復元する。
+  // ライブラリは非同期に読み込まれるので、楽譜を開くたびに、楽譜の情報が揃った時点で一度だけ行う
+  const loopRestoredScoreIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    loopRestoredScoreIdRef.current = null;
+    setLoopRange(null);
+    setIsPickingLoop(false);
+    setLoopPickStart(null);
+    setPerformanceReport(null);
+  }, [currentScoreId]);
+
+  useEffect(() => {
+    if (!currentScore || loopRestoredScoreIdRef.current === currentScore.id) return;
+    loopRestoredScoreIdRef.current = currentScore.id;
+    setLoopRange(currentScore.tempoTrainer?.range ?? null);
+  }, [currentScore]);
+
+  const getWaitStartIndex = () => loopBounds ? loopBounds.startIndex : Math.max(0, findColumnIndex(scoreColumns, selected));
+
+  const handleToggleWaitMode = () => {
+    if (waitMode.isEnabled) {
+      waitMode.stop();
+      return;
+    }
+    playback.stop();
+    waitMode.start(getWaitStartIndex());
+  };
+
+  const handleStartLoopPick = () => {
+    setIsPickingLoop(true);
+    setLoopPickStart(null);
+  };
+
+  const handleCancelLoopPick = () => {
+    setIsPickingLoop(false);
+    setLoopPickStart(null);
+  };
+
+  const handleMeasurePick = useCallback((measure: MeasureContext) => {
+    if (loopPickStart === null) {
+      setLoopPickStart(measure.measureNumber);
+      return;
+    }
+    setLoopRange({
+      startMeasure: Math.min(loopPickStart, measure.measureNumber),
+      endMeasure: Math.max(loopPickStart, measure.measureNumber)
+    });
+    setIsPickingLoop(false);
+    setLoopPickStart(null);
+  }, [loopPickStart]);
+
+  // 終点を選ぶまでは始点の小節だけをプレビュー表示する
+  const displayedLoopRange = isPickingLoop && loopPickStart !== null
+    ? { startMeasure: loopPickStart, endMeasure: loopPickStart }
+    : loopRange;
+
+  const handlePlayPause = () => {
+    if (playback.state === 'playing') {
+      playback.pause();
+      return;
+    }
+    waitMode.stop();
+    const index = findColumnIndex(scoreColumns, selected);
+    void playback.play(playback.state === 'stopped' && index >= 0 ? index : undefined);
+  };
+
+  // 自動スクロールで追う小節：カーソル駆動モード、メトロノーム、選択の順に優先する
+  const metronomeMeasureNumber = metronome.position?.measureNumber ?? null;
+  const followMeasure = useMemo(() => {
+    if (cursorColumn) return cursorColumn.measure;
+    if (metronomeMeasureNumber !== null) {
+      const measure = scoreContexts.find((ctx) => ctx.measureNumber === metronomeMeasureNumber);
+      if (measure) return measure;
+    }
+    return selected?.measure ?? null;
+  }, [cursorColumn, metronomeMeasureNumber, scoreContexts, selected]);
+
+  const handleToggleMetronome = () => {
+    if (trainer.isRunning) {
+      stopTrainer();
+      return;
+    }
+    if (metronome.isRunning) {
+      metronome.stop();
+      return;
+    }
+    void metronome.start(displayedSelection?.measure.measureNumber ?? loopRange?.startMeasure);
+  };
+
+  // 小節の長押し（右クリック）メニュー
+  const [measureMenu, setMeasureMenu] = useState<MeasureContextMenuState | null>(null);
+  const handleMeasureLongPress = useCallback((measure: MeasureContext, point: { clientX: number; clientY: number }) => {
+    setMeasureMenu({ measure, ...point });
+  }, []);
+  const getMeasureStartIndex = (measure: MeasureContext) =>
+    Math.max(0, scoreColumns.findIndex((column) => column.measure.measureNumber >= measure.measureNumber));
+
+  const handlePlayFromMeasure = (measure: MeasureContext) => {
+    waitMode.stop();
+    playback.stop();
+    void playback.play(getMeasureStartIndex(measure));
+  };
+
+  const handleWaitFromMeasure = (measure: MeasureContext) => {
+    playback.stop();
+    waitMode.start(getMeasureStartIndex(measure));
+  };
+
+  const handleExtendLoop = (measure: MeasureContext) => {
+    if (!loopRange) return;
+    setLoopRange({
+      startMeasure: Math.min(loopRange.startMeasure, measure.measureNumber),
+      endMeasure: Math.max(loopRange.endMeasure, measure.measureNumber)
+    });
+  };
+
+  const handleStartTrainer = (fromStart: boolean) => {
+    waitMode.stop();
+    playback.stop();
+    setTrainerDialogOpen(false);
+    trainer.start(fromStart);
+  };
+
   const onScoreChangeWrapper = (id: string) => {
-    handleScoreChange(id, resetSelection);
+    void handleScoreChange(id, resetSelection);
   };
   
-  const handleOpenEditDialog = (e: React.MouseEvent, score: SavedScore) => {
+  const handleOpenEditDialog = (e: React.MouseEvent, score: ScoreMetadata) => {
     e.stopPropagation();
     setEditingScoreId(score.id);
     setNewScoreName(score.name);
@@ -120,10 +433,17 @@ function App() {
 
   const handleDeleteScoreWrapper = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    handleDeleteScore(id);
+    void handleDeleteScore(id);
+    deleteRecordingsForScore(id).catch((error) => console.error('Failed to delete recordings:', error));
+    deletePracticeSessionsForScore(id).catch((error) => console.error('Failed to delete practice sessions:', error));
     if (currentScoreId === id) resetSelection();
   };
 
+  const handleRestoreScoreVersion = (scoreId: string, versionId: string) => {
+    if (currentScoreId === scoreId) resetSelection();
+    void restoreScoreVersion(scoreId, versionId);
+  };
+
   const handleSoundFontUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     event.target.value = '';
@@ -158,6 +478,50 @@ function App() {
     }
   };
 
+  // バックアップ（楽譜・設定・SoundFont）の書き出しと取り込み
+  const [backupDialogOpen, setBackupDialogOpen] = useState(false);
+  const handleBackupImported = async () => {
+    await refreshUserSoundFonts();
+    await reloadLibrary();
+  };
+
+  const handleAnalyzeTake = (take: MidiRecording) => {
+    const report = analyzePerformance(take, scoreColumns, settings.visualTranspose);
+    setPerformanceReport(report);
+    setRecordingsDialogOpen(false);
+    setReportDialogOpen(true);
+    return report;
+  };
+
+  const handleShowReportMeasure = (measureNumber: number) => {
+    const column = scoreColumns.find((candidate) => candidate.measure.measureNumber === measureNumber);
+    if (column) setSelected(createColumnSelection(column, settings.visualTranspose));
+    setReportDialogOpen(false);
+  };
+
+  const handleToggleRecording = () => {
+    if (recorder.isRecording) {
+      void recorder.stop().then((take) => {
+        if (!take) return;
+        const report = handleAnalyzeTake(take);
+        if (report.measures.length === 0) return;
+        logActivity({
+          measures: report.measures.map((measure) => measure.measureNumber),
+          accuracy: report.accuracy,
+          tempo: take.tempo
+        });
+      });
+      return;
+    }
+    void startAudio();
+    recorder.start();
+  };
+
+  const handleDownloadTake = (take: MidiRecording, format: MidiFileFormat) => {
+    const bytes = encodeMidiFile(take, format);
+    downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `${toSafeFileName(`${currentScoreName} - ${take.name}`)}.mid`);
+  };
+
   const handleSelectionChange = useCallback((
     nextSelection: SelectionResult | null,
     forcePlay: boolean = false
@@ -167,6 +531,12 @@ function App() {
       return;
     }
 
+    if (waitMode.isEnabled || playback.state !== 'stopped') {
+      const index = findColumnIndex(scoreColumns, nextSelection);
+      if (index >= 0 && waitMode.isEnabled) waitMode.moveTo(index);
+      if (index >= 0 && playback.state !== 'stopped') playback.seek(index);
+    }
+
     const isDifferentColumn = nextSelection.columnKey !== selected?.columnKey;
     const prevMidiNotes = selected?.midiNotes ?? EMPTY_NOTES;
     const isDifferentMidi = nextSelection.midiNotes.size !== prevMidiNotes.size || 
@@ -177,7 +547,82 @@ function App() {
       setSelected(nextSelection);
       if (nextSelection.midiNotes.size > 0) playNotes(Array.from(nextSelection.midiNotes));
     }
-  }, [playNotes, selected, resetSelection]);
+  }, [playNotes, selected, resetSelection, waitMode.isEnabled, waitMode.moveTo, playback.state, playback.seek, scoreColumns]);
+
+  // キーボード・ページめくりペダルのショートカット
+  const [shortcutsDialogOpen, setShortcutsDialogOpen] = useState(false);
+  const [systemScrollRequest, setSystemScrollRequest] = useState<SystemScrollRequest | null>(null);
+  const columnSelections = useMemo(
+    () => buildColumnSelections(scoreContexts, settings.visualTranspose, settings.practiceHand),
+    [scoreContexts, settings.visualTranspose, settings.practiceHand]
+  );
+
+  const getCurrentSelectionIndex = () => {
+    if (!displayedSelection) return -1;
+    return columnSelections.findIndex((candidate) =>
+      candidate.columnKey === displayedSelection.columnKey &&
+      candidate.measure.measureNumber === displayedSelection.measure.measureNumber &&
+      candidate.measure.systemId === displayedSelection.measure.systemId
+    );
+  };
+
+  const selectColumnAt = (index: number) => {
+    const nextSelection = columnSelections[index];
+    if (nextSelection) handleSelectionChange(nextSelection, true);
+  };
+
+  const stepColumn = (delta: 1 | -1) => {
+    if (columnSelections.length === 0) return;
+    const index = getCurrentSelectionIndex();
+    if (index < 0) {
+      selectColumnAt(delta > 0 ? 0 : columnSelections.length - 1);
+      return;
+    }
+    selectColumnAt(Math.min(columnSelections.length - 1, Math.max(0, index + delta)));
+  };
+
+  // 小節送りは前後の小節の最初の列へ移動する
+  const stepMeasure = (delta: 1 | -1) => {
+    const index = getCurrentSelectionIndex();
+    if (index < 0) {
+      stepColumn(delta);
+      return;
+    }
+    const isSameMeasure = (a: SelectionResult, b: SelectionResult) =>
+      a.measure.measureNumber === b.measure.measureNumber && a.measure.systemId === b.measure.systemId;
+    let measureStart = index;
+    while (measureStart > 0 && isSameMeasure(columnSelections[measureStart - 1], columnSelections[index])) measureStart--;
+
+    if (delta > 0) {
+      const nextIndex = columnSelections.findIndex((candidate, i) => i > index && !isSameMeasure(candidate, columnSelections[index]));
+      if (nextIndex >= 0) selectColumnAt(nextIndex);
+      return;
+    }
+    if (measureStart === 0) return;
+    let previousStart = measureStart - 1;
+    while (previousStart > 0 && isSameMeasure(columnSelections[previousStart - 1], columnSelections[measureStart - 1])) previousStart--;
+    selectColumnAt(previousStart);
+  };
+
+  const requestSystemScroll = (direction: 1 | -1) => {
+    setSystemScrollRequest((prev) => ({ direction, requestId: (prev?.requestId ?? 0) + 1 }));
+  };
+
+  useKeyboardShortcuts(settings.keyBindings, {
+    prevColumn: () => stepColumn(-1),
+    nextColumn: () => stepColumn(1),
+    prevMeasure: () => stepMeasure(-1),
+    nextMeasure: () => stepMeasure(1),
+    playSelection: () => {
+      if (displayedSelection) handleSelectionChange(displayedSelection, true);
+      else selectColumnAt(0);
+    },
+    toggleGuideLines: () => updateSetting('showGuideLines', !settings.showGuideLines),
+    toggleMidiMatchLines: () => updateSetting('showMidiMatchLines', !settings.showMidiMatchLines),
+    toggleAllLines: () => updateSetting('showAllLines', !settings.showAllLines),
+    scrollPrevSystem: () => requestSystemScroll(-1),
+    scrollNextSystem: () => requestSystemScroll(1)
+  });
 
   const handleTitleReady = useCallback((title: string) => {
     updateScoreNameFromTitle(currentScoreId, title);
@@ -215,7 +660,7 @@ function App() {
           display: 'flex', 
           flexDirection: 'column', 
           minHeight: '100vh', 
-          pb: '140px',
+          pb: `${KEYBOARD_AREA_HEIGHT}px`,
           bgcolor: '#f5f5f5' // 背景を少しグレーにしてPaperを際立たせる
         }}
         onClick={resetSelection}
@@ -234,6 +679,16 @@ function App() {
             settings={settings}
             updateSetting={updateSetting}
             onResetSettings={resetSettings}
+            scoreSettingKeys={scoreSettingKeys}
+            canBindScoreSettings={canBindScoreSettings}
+            onToggleScoreSetting={toggleScoreSetting}
+            presets={presets}
+            activePresetId={activePresetId}
+            onApplyPreset={(preset) => applySettings(preset.settings)}
+            onOpenPresets={() => setPresetsDialogOpen(true)}
+            onOpenShortcuts={() => setShortcutsDialogOpen(true)}
+            onOpenBackup={() => setBackupDialogOpen(true)}
+            onOpenLibrary={() => setLibraryDialogOpen(true)}
             isAudioStarted={isAudioStarted}
             onStartAudio={startAudio}
             onFileUpload={(e) => handleFileUpload(e, resetSelection)}
@@ -243,9 +698,55 @@ function App() {
             isSamplesLoaded={isSamplesLoaded}
             audioEngine={audioEngine}
             availableMidiDevices={availableDevices}
+            availableMidiOutputs={availableMidiOutputs}
             selectedMidiDeviceId={selectedDeviceId}
+            computerKeyboard={computerKeyboard}
             onMidiDeviceChange={selectDevice}
             activeNotes={activeNotes}
+            storageUsage={storageUsage}
+            onRefreshStorageUsage={refreshStorageUsage}
+          />
+
+          <PracticePanel
+            hasColumns={scoreColumns.length > 0}
+            isWaitMode={waitMode.isEnabled}
+            isWaitComplete={waitMode.isComplete}
+            waitPosition={waitMode.cursorIndex + 1}
+            totalColumns={scoreColumns.length}
+            onToggleWaitMode={handleToggleWaitMode}
+            onRestartWaitMode={() => waitMode.start(loopBounds ? loopBounds.startIndex : 0)}
+            playbackState={playback.state}
+            playbackTempo={playbackTempo}
+            onPlaybackTempoChange={setPlaybackTempo}
+            onPlayPause={handlePlayPause}
+            onStopPlayback={playback.stop}
+            isMetronomeRunning={metronome.isRunning}
+            metronomePosition={metronome.position}
+            onToggleMetronome={handleToggleMetronome}
+            practiceHand={settings.practiceHand}
+            onPracticeHandChange={(hand) => updateSetting('practiceHand', hand)}
+            loopRange={loopRange}
+            loopPickStage={isPickingLoop ? (loopPickStart === null ? 'start' : 'end') : 'idle'}
+            onStartLoopPick={handleStartLoopPick}
+            onCancelLoopPick={handleCancelLoopPick}
+            onClearLoop={() => setLoopRange(null)}
+            loopCountIn={loopCountIn}
+            onLoopCountInChange={setLoopCountIn}
+            isRecording={recorder.isRecording}
+            takeCount={recorder.takes.length}
+            onToggleRecording={handleToggleRecording}
+            onOpenRecordings={() => setRecordingsDialogOpen(true)}
+            reportAccuracy={performanceReport?.accuracy ?? null}
+            onOpenReport={() => setReportDialogOpen(true)}
+            onClearReport={() => setPerformanceReport(null)}
+            onOpenStats={() => setStatsDialogOpen(true)}
+            isTrainerRunning={trainer.isRunning}
+            isTrainerComplete={trainer.isComplete}
+            trainerPercent={trainer.currentPercent}
+            trainerTempo={trainer.currentTempo}
+            lastTrainerRep={trainer.reps[trainer.reps.length - 1] ?? null}
+            onOpenTrainer={() => setTrainerDialogOpen(true)}
+            onStopTrainer={stopTrainer}
           />
 
           <Paper 
@@ -267,10 +768,22 @@ function App() {
               onSelectionChange={handleSelectionChange}
               onTitleReady={handleTitleReady}
               onLoadingStateChange={handleLoadingStateChange}
-              selection={selected}
+              onContextsChange={setScoreContexts}
+              onMeasurePick={isPickingLoop ? handleMeasurePick : undefined}
+              onMeasureLongPress={handleMeasureLongPress}
+              selection={displayedSelection}
+              cursorColumn={cursorColumn}
+              loopRange={displayedLoopRange}
+              measureAccuracy={performanceReport?.measures ?? null}
+              followMeasure={followMeasure}
+              autoScroll={settings.autoScroll}
+              halfPageTurn={settings.halfPageTurn}
+              viewportBottomInset={KEYBOARD_AREA_HEIGHT}
+              systemScrollRequest={systemScrollRequest}
               activeNotes={activeNotes}
               highlightBlackKeys={settings.highlightBlackKeys}
               visualTranspose={settings.visualTranspose}
+              practiceHand={settings.practiceHand}
             />
           </Paper>
         </Box>
@@ -283,6 +796,145 @@ function App() {
           onSave={handleSaveNewName}
         />
 
+        <ScoreLibraryDialog
+          open={libraryDialogOpen}
+          onClose={() => setLibraryDialogOpen(false)}
+          scoreLibrary={scoreLibrary}
+          currentScoreId={currentScoreId}
+          sortKey={settings.librarySort}
+          onSortChange={(key) => updateSetting('librarySort', key)}
+          onOpenScore={onScoreChangeWrapper}
+          onToggleFavorite={toggleFavorite}
+          onOrganize={setOrganizingScore}
+          onShowHistory={(score) => setHistoryScoreId(score.id)}
+          onOpenEditDialog={handleOpenEditDialog}
+          onDeleteScore={handleDeleteScoreWrapper}
+        />
+
+        <ScoreOrganizeDialog
+          score={organizingScore}
+          folders={libraryFolders}
+          tags={libraryTags}
+          onClose={() => setOrganizingScore(null)}
+          onSave={updateScoreOrganization}
+        />
+
+        <ScoreHistoryDialog
+          score={historyScore}
+          onClose={() => setHistoryScoreId(null)}
+          onRestore={handleRestoreScoreVersion}
+          onDelete={(scoreId, versionId) => void removeScoreVersion(scoreId, versionId)}
+        />
+
+        <UploadConflictDialog conflict={uploadConflict} onResolve={(action) => void resolveUploadConflict(action)} />
+
+        <RecordingsDialog
+          open={recordingsDialogOpen}
+          onClose={() => setRecordingsDialogOpen(false)}
+          scoreName={currentScoreName}
+          takes={recorder.takes}
+          onDownload={handleDownloadTake}
+          onAnalyze={handleAnalyzeTake}
+          onDelete={(id) => void recorder.deleteTake(id)}
+        />
+
+        <PerformanceReportDialog
+          open={reportDialogOpen}
+          onClose={() => setReportDialogOpen(false)}
+          report={performanceReport}
+          onShowMeasure={handleShowReportMeasure}
+        />
+
+        <PracticeStatsDialog
+          open={statsDialogOpen}
+          onClose={() => setStatsDialogOpen(false)}
+          scoreName={currentScoreName}
+          sessions={practiceLog.sessions}
+        />
+
+        <TempoTrainerDialog
+          open={trainerDialogOpen}
+          onClose={() => setTrainerDialogOpen(false)}
+          loopRange={loopRange}
+          config={trainerProgress?.config ?? DEFAULT_TEMPO_LADDER}
+          progress={isTrainerProgressForLoop ? trainerProgress : null}
+          markedTempo={trainer.markedTempo}
+          onConfigChange={trainer.updateConfig}
+          onStart={handleStartTrainer}
+        />
+
+        <KeyboardShortcutsDialog
+          open={shortcutsDialogOpen}
+          onClose={() => setShortcutsDialogOpen(false)}
+          keyBindings={settings.keyBindings}
+          onChange={(keyBindings) => updateSetting('keyBindings', keyBindings)}
+        />
+
+        <BackupDialog
+          open={backupDialogOpen}
+          onClose={() => setBackupDialogOpen(false)}
+          settings={globalSettings}
+          onRestoreSettings={replaceSettings}
+          onImported={handleBackupImported}
+        />
+
+        <SettingsPresetsDialog
+          open={presetsDialogOpen}
+          onClose={() => setPresetsDialogOpen(false)}
+          presets={presets}
+          activePresetId={activePresetId}
+          onApply={(preset) => applySettings(preset.settings)}
+          onSaveCurrent={(name) => savePreset(name, globalSettings)}
+          onDelete={deletePreset}
+          onExport={exportPreset}
+          onImport={importPreset}
+        />
+
+        <MeasureContextMenu
+          menu={measureMenu}
+          onClose={() => setMeasureMenu(null)}
+          loopRange={loopRange}
+          onPlayFrom={handlePlayFromMeasure}
+          onWaitFrom={handleWaitFromMeasure}
+          onMetronomeFrom={(measure) => void metronome.start(measure.measureNumber)}
+          onLoopMeasure={(measure) => setLoopRange({ startMeasure: measure.measureNumber, endMeasure: measure.measureNumber })}
+          onExtendLoop={handleExtendLoop}
+        />
+
+        <Snackbar
+          open={!!storageError}
+          onClose={(_, reason) => reason !== 'clickaway' && clearStorageError()}
+          anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        >
+          <Alert severity="error" variant="filled" onClose={clearStorageError} sx={{ maxWidth: 560 }}>
+            {storageError}
+          </Alert>
+        </Snackbar>
+
+        <Snackbar
+          open={settingsRepairs.length > 0}
+          onClose={(_, reason) => reason !== 'clickaway' && clearSettingsRepairs()}
+          anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        >
+          <Alert severity="warning" variant="filled" onClose={clearSettingsRepairs} sx={{ maxWidth: 560 }}>
+            Some saved settings were invalid and have been repaired:
+            <Box component="ul" sx={{ m: 0, pl: 2.5 }}>
+              {settingsRepairs.map((repair) => <li key={repair.key}>{repair.key}: {repair.message}</li>)}
+            </Box>
+          </Alert>
+        </Snackbar>
+
+        <Snackbar
+          open={!!libraryNotice}
+          autoHideDuration={6000}
+          onClose={(_, reason) => reason !== 'clickaway' && clearLibraryNotice()}
+          anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        >
+          <Alert severity="info" variant="filled" onClose={clearLibraryNotice} sx={{ maxWidth: 560 }}>
+            {libraryNotice}
+          </Alert>
+        </Snackbar>
+
         {/* Loading Overlay */}
         <Backdrop
           sx={{ color: '#fff', zIndex: (theme) => theme.zIndex.drawer + 1, position: 'absolute' }}
@@ -297,8 +949,10 @@ function App() {
         <Box sx={{ position: 'fixed', bottom: 0, left: 0, right: 0, zIndex: 1100 }}>
           <PianoKeyboard 
             activeNotes={activeNotes} 
-            highlightNotes={selected?.midiNotes ?? EMPTY_NOTES}
-            keySig={selected?.measure.keySig ?? null}
+            highlightNotes={displayedSelection?.midiNotes ?? EMPTY_NOTES}
+            keySig={displayedSelection?.measure.keySig ?? null}
+            onNoteOn={(midi, velocity) => injectMessage([0x90, midi, velocity])}
+            onNoteOff={(midi) => injectMessage([0x80, midi, 0])}
           />
         </Box>
       </Box>
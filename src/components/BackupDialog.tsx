@@ -0,0 +1,198 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Stack, Typography, Alert, RadioGroup, Radio,
+  FormControlLabel, FormControl, FormLabel, Checkbox, Divider, CircularProgress
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { PianoSettings } from '../types/piano';
+import {
+  BackupConflictPolicy, BackupConflicts, BackupContents, BackupImportMode, BackupImportResult,
+  createBackupArchive, findBackupConflicts, importBackup, readBackupArchive
+} from '../utils/backupArchive';
+import { isQuotaExceededError } from '../utils/scoreStorage';
+import { downloadBlob } from '../utils/download';
+
+interface BackupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  settings: PianoSettings;
+  onRestoreSettings: (settings: unknown) => void;
+  onImported: () => Promise<void>;
+}
+
+interface PendingImport {
+  fileName: string;
+  contents: BackupContents;
+  conflicts: BackupConflicts;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+const describeResult = (result: BackupImportResult) => {
+  const parts = [`${result.scoresAdded} scores added`];
+  if (result.scoresReplaced > 0) parts.push(`${result.scoresReplaced} replaced`);
+  if (result.scoresSkipped > 0) parts.push(`${result.scoresSkipped} skipped`);
+  parts.push(`${result.soundFontsAdded} SoundFonts added`);
+  if (result.soundFontsReplaced > 0) parts.push(`${result.soundFontsReplaced} replaced`);
+  if (result.soundFontsSkipped > 0) parts.push(`${result.soundFontsSkipped} skipped`);
+  return `${parts.join(', ')}.`;
+};
+
+const BackupDialog: React.FC<BackupDialogProps> = ({
+  open,
+  onClose,
+  settings,
+  onRestoreSettings,
+  onImported
+}) => {
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [pending, setPending] = React.useState<PendingImport | null>(null);
+  const [mode, setMode] = React.useState<BackupImportMode>('merge');
+  const [onConflict, setOnConflict] = React.useState<BackupConflictPolicy>('keep-both');
+  const [restoreSettings, setRestoreSettings] = React.useState(true);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleClose = () => {
+    if (busy) return;
+    setPending(null);
+    setError(null);
+    setMessage(null);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const blob = await createBackupArchive(settings);
+      downloadBlob(blob, `interactive-score-piano-backup-${formatDate(Date.now())}.zip`);
+      setMessage('Backup exported.');
+    } catch (e) {
+      console.error('Failed to export backup:', e);
+      setError(`Could not export the backup. ${e instanceof Error ? e.message : ''}`.trim());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const contents = await readBackupArchive(await file.arrayBuffer());
+      const conflicts = await findBackupConflicts(contents);
+      setPending({ fileName: file.name, contents, conflicts });
+      setRestoreSettings(contents.settings !== null);
+    } catch (e) {
+      console.error('Failed to read backup:', e);
+      setError(`Could not read the backup. ${e instanceof Error ? e.message : ''}`.trim());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await importBackup(pending.contents, mode, onConflict);
+      if (restoreSettings && pending.contents.settings) onRestoreSettings(pending.contents.settings);
+      await onImported();
+      setPending(null);
+      setMessage(describeResult(result));
+    } catch (e) {
+      console.error('Failed to import backup:', e);
+      setError(isQuotaExceededError(e)
+        ? 'Storage is full. Whatever did not fit was not imported, and the data it would have replaced was kept. Free some space and import it again.'
+        : `Could not import the backup. ${e instanceof Error ? e.message : ''}`.trim());
+      await onImported();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const conflictCount = pending ? pending.conflicts.scores.length + pending.conflicts.soundFonts.length : 0;
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs" onClick={(e) => e.stopPropagation()}>
+      <DialogTitle>Backup &amp; Restore</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            A backup contains your score library, settings and uploaded SoundFonts in a single file.
+          </Typography>
+          <Stack direction="row" spacing={1}>
+            <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleExport} disabled={busy}>
+              Export Backup
+            </Button>
+            <Button variant="outlined" startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()} disabled={busy}>
+              Import Backup
+            </Button>
+            <input ref={fileInputRef} type="file" hidden accept=".zip,application/zip" onChange={handleFileSelect} />
+            {busy && <CircularProgress size={24} sx={{ alignSelf: 'center' }} />}
+          </Stack>
+
+          {pending && (
+            <>
+              <Divider />
+              <Typography variant="body2">
+                <strong>{pending.fileName}</strong> ({formatDate(pending.contents.createdAt)}):{' '}
+                {pending.contents.scores.length} scores, {pending.contents.soundFonts.length} SoundFonts
+                {pending.contents.settings ? ', settings' : ''}
+              </Typography>
+              <FormControl>
+                <FormLabel sx={{ typography: 'caption' }}>Import Mode</FormLabel>
+                <RadioGroup value={mode} onChange={(e) => setMode(e.target.value as BackupImportMode)}>
+                  <FormControlLabel value="merge" control={<Radio size="small" />} label={<Typography variant="body2">Merge with current library</Typography>} />
+                  <FormControlLabel value="replace" control={<Radio size="small" />} label={<Typography variant="body2">Replace current library and SoundFonts</Typography>} />
+                </RadioGroup>
+              </FormControl>
+              {mode === 'merge' && conflictCount > 0 && (
+                <FormControl>
+                  <FormLabel sx={{ typography: 'caption' }}>
+                    {pending.conflicts.scores.length} scores and {pending.conflicts.soundFonts.length} SoundFonts already exist
+                  </FormLabel>
+                  <RadioGroup value={onConflict} onChange={(e) => setOnConflict(e.target.value as BackupConflictPolicy)}>
+                    <FormControlLabel value="keep-both" control={<Radio size="small" />} label={<Typography variant="body2">Keep both</Typography>} />
+                    <FormControlLabel value="overwrite" control={<Radio size="small" />} label={<Typography variant="body2">Overwrite with backup</Typography>} />
+                    <FormControlLabel value="skip" control={<Radio size="small" />} label={<Typography variant="body2">Skip existing</Typography>} />
+                  </RadioGroup>
+                </FormControl>
+              )}
+              <FormControlLabel
+                control={<Checkbox size="small" checked={restoreSettings} disabled={!pending.contents.settings} onChange={(e) => setRestoreSettings(e.target.checked)} />}
+                label={<Typography variant="body2">Restore settings</Typography>}
+              />
+              {mode === 'replace' && (
+                <Alert severity="warning">All scores and uploaded SoundFonts currently in this browser will be deleted, along with the recordings and practice history of scores that are not in the backup.</Alert>
+              )}
+            </>
+          )}
+
+          {error && <Alert severity="error">{error}</Alert>}
+          {message && <Alert severity="success">{message}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={busy}>Close</Button>
+        {pending && (
+          <Button variant="contained" color={mode === 'replace' ? 'error' : 'primary'} onClick={handleImport} disabled={busy}>
+            Import
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BackupDialog;
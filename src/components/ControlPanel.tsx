@@ -2,7 +2,7 @@ import React, { ChangeEvent, useState } from 'react';
 import {
   Box, Paper, Stack, Button, IconButton, Tooltip, Slider, Switch, FormControlLabel,
   Select, MenuItem, FormControl, InputLabel, Typography, CircularProgress, ListSubheader,
-  Popover, Divider
+  Popover, Divider, LinearProgress, ToggleButtonGroup, ToggleButton
 } from '@mui/material';
 import CloudUploadIcon from '@mui/icons-material/CloudUpload';
 import VolumeUpIcon from '@mui/icons-material/VolumeUp';
@@ -13,20 +13,39 @@ import PianoIcon from '@mui/icons-material/Piano';
 import SettingsIcon from '@mui/icons-material/Settings';
 import TuneIcon from '@mui/icons-material/Tune';
 import KeyboardIcon from '@mui/icons-material/Keyboard';
-import { SavedScore, PianoSettings } from '../types/piano';
-import { MidiDevice } from '../hooks/useMidi';
+import AvTimerIcon from '@mui/icons-material/AvTimer';
+import ComputerIcon from '@mui/icons-material/Computer';
+import StarIcon from '@mui/icons-material/Star';
+import LibraryMusicIcon from '@mui/icons-material/LibraryMusic';
+import BackupIcon from '@mui/icons-material/Backup';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined';
+import { ScoreMetadata, PianoSettings, MetronomeSound, ScoreSettingKey, SettingsPreset, KeyboardMode } from '../types/piano';
+import { COMPUTER_KEYBOARD_DEVICE, MidiDevice } from '../hooks/useMidi';
 import { GM_INSTRUMENTS } from '../data/gmInstruments';
 import { SoundFontOption } from '../data/soundFonts';
+import { formatStorageSize, StorageUsage } from '../utils/scoreStorage';
+import { sortScores } from '../utils/scoreLibrary';
+import { formatNoteName, KEYBOARD_MODE_OPTIONS } from '../utils/keyboardZones';
 
 interface ControlPanelProps {
-  scoreLibrary: SavedScore[];
+  scoreLibrary: ScoreMetadata[];
   currentScoreId: string;
   onScoreChange: (id: string) => void;
-  onOpenEditDialog: (e: React.MouseEvent, score: SavedScore) => void;
+  onOpenEditDialog: (e: React.MouseEvent, score: ScoreMetadata) => void;
   onDeleteScore: (e: React.MouseEvent, id: string) => void;
   settings: PianoSettings;
   updateSetting: <K extends keyof PianoSettings>(key: K, value: PianoSettings[K]) => void;
   onResetSettings: () => void;
+  scoreSettingKeys: ScoreSettingKey[];
+  canBindScoreSettings: boolean;
+  onToggleScoreSetting: (key: ScoreSettingKey) => void;
+  presets: SettingsPreset[];
+  activePresetId: string | null;
+  onApplyPreset: (preset: SettingsPreset) => void;
+  onOpenPresets: () => void;
+  onOpenShortcuts: () => void;
+  onOpenBackup: () => void;
   isAudioStarted: boolean;
   onStartAudio: () => Promise<void>;
   onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
@@ -35,12 +54,20 @@ interface ControlPanelProps {
   onDeleteSoundFont: (id: string) => void | Promise<void>;
   isSamplesLoaded: boolean;
   audioEngine: 'not-started' | 'worklet' | 'main-thread';
-  availableMidiDevices: { id: string, name: string }[];
+  availableMidiDevices: MidiDevice[];
+  availableMidiOutputs: MidiDevice[];
   selectedMidiDeviceId: string;
+  computerKeyboard: { baseNote: number; velocity: number };
   onMidiDeviceChange: (id: string) => void;
   activeNotes?: Set<number>;
+  storageUsage: StorageUsage | null;
+  onRefreshStorageUsage: () => void;
+  onOpenLibrary: () => void;
 }
 
+const LARGE_LIBRARY_SIZE = 12;
+const BROWSE_LIBRARY_VALUE = '__browse__';
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
   scoreLibrary,
   currentScoreId,
@@ -50,6 +77,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   settings,
   updateSetting,
   onResetSettings,
+  scoreSettingKeys,
+  canBindScoreSettings,
+  onToggleScoreSetting,
+  presets,
+  activePresetId,
+  onApplyPreset,
+  onOpenPresets,
+  onOpenShortcuts,
+  onOpenBackup,
   isAudioStarted,
   onStartAudio,
   onFileUpload,
@@ -59,9 +95,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   isSamplesLoaded,
   audioEngine,
   availableMidiDevices,
+  availableMidiOutputs,
   selectedMidiDeviceId,
+  computerKeyboard,
   onMidiDeviceChange,
-  activeNotes = new Set()
+  activeNotes = new Set(),
+  storageUsage,
+  onRefreshStorageUsage,
+  onOpenLibrary
 }) => {
   const [anchorEl, setAnchorEl] = useState<HTMLButtonElement | null>(null);
   
@@ -91,9 +132,52 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     updateSetting(key, newValue as number);
   };
 
+  // 楽譜ごとに保存された項目は色とピンで区別する
+  const renderSettingLabel = (label: string, key: ScoreSettingKey, mb = 0) => {
+    const isBound = scoreSettingKeys.includes(key);
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb }}>
+        <Typography variant="caption" color={isBound ? 'primary' : 'text.secondary'} sx={{ fontWeight: isBound ? 'bold' : undefined }}>
+          {label}{isBound ? ' (this score)' : ''}
+        </Typography>
+        {canBindScoreSettings && (
+          <Tooltip title={isBound ? 'Saved with this score. Click to use the global default.' : 'Global default. Click to save with this score.'}>
+            <IconButton size="small" onClick={() => onToggleScoreSetting(key)} sx={{ p: 0.25 }}>
+              {isBound ? <PushPinIcon color="primary" sx={{ fontSize: 16 }} /> : <PushPinOutlinedIcon sx={{ fontSize: 16 }} />}
+            </IconButton>
+          </Tooltip>
+        )}
+      </Box>
+    );
+  };
+
+  const renderInstrumentSelect = (key: 'gmProgram' | 'secondaryGmProgram') => (
+    <FormControl fullWidth size="small">
+      <Select
+        value={settings[key]}
+        onChange={(e) => updateSetting(key, Number(e.target.value))}
+        onOpen={onStartAudio}
+        renderValue={(selected) => {
+          const current = GM_INSTRUMENTS.find((instrument) => instrument.program === selected);
+          return current ? `${current.program + 1}: ${current.name}` : String(selected);
+        }}
+      >
+        {groupedInstruments.flatMap(([category, instruments]) => [
+          <ListSubheader key={`h-${category}`}>{category}</ListSubheader>,
+          ...instruments.map((instrument) => (
+            <MenuItem key={instrument.program} value={instrument.program} sx={{ display: 'flex', alignItems: 'center', gap: 1, pl: 3 }}>
+              <PianoIcon fontSize="small" /> {instrument.program + 1}: {instrument.name}
+            </MenuItem>
+          )),
+        ])}
+      </Select>
+    </FormControl>
+  );
+
   const handleSettingsClick = (event: React.MouseEvent<HTMLButtonElement>) => {
     setAnchorEl(event.currentTarget);
     onStartAudio();
+    onRefreshStorageUsage();
   };
 
   const handleSettingsClose = () => {
@@ -106,6 +190,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onResetSettings();
   };
 
+  // ライブラリが大きい場合はお気に入りと現在の楽譜だけをメニューに出し、残りはライブラリ画面から選ぶ
+  const isLargeLibrary = scoreLibrary.length > LARGE_LIBRARY_SIZE;
+  const menuScores = sortScores(
+    isLargeLibrary ? scoreLibrary.filter((score) => score.favorite || score.id === currentScoreId) : scoreLibrary,
+    settings.librarySort
+  );
+
   const open = Boolean(anchorEl);
   const id = open ? 'settings-popover' : undefined;
   const sortedActiveNotes = Array.from(activeNotes).sort((a, b) => a - b);
@@ -135,7 +226,10 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 labelId="score-select-label"
                 value={currentScoreId}
                 label="Score Library"
-                onChange={(e) => onScoreChange(e.target.value)}
+                onChange={(e) => {
+                  if (e.target.value === BROWSE_LIBRARY_VALUE) onOpenLibrary();
+                  else onScoreChange(e.target.value);
+                }}
                 renderValue={(selected) => {
                   if (selected === 'sample') return 'Sample: Grand Staff';
                   if (selected === 'clef-sample') return 'Sample: Clef Change';
@@ -149,21 +243,41 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 <MenuItem value="clef-sample">
                   <Typography variant="body2">Sample: Clef Change</Typography>
                 </MenuItem>
-                {scoreLibrary.map((score) => (
+                {menuScores.length > 0 && isLargeLibrary && <ListSubheader>Favorites</ListSubheader>}
+                {menuScores.map((score) => (
                   <MenuItem key={score.id} value={score.id} sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', minHeight: 40 }}>
-                    <Typography variant="body2" sx={{ flexGrow: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                      {score.name}
-                    </Typography>
+                    {score.favorite && <StarIcon fontSize="small" color="warning" sx={{ mr: 1 }} />}
+                    <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                      <Typography variant="body2" sx={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {score.name}
+                      </Typography>
+                      {score.composer && (
+                        <Typography variant="caption" color="text.secondary" display="block" sx={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {score.composer}
+                        </Typography>
+                      )}
+                    </Box>
                     <Box sx={{ ml: 1, display: 'flex' }}>
                       <IconButton size="small" onClick={(e) => onOpenEditDialog(e, score)} sx={{ mr: 0.5 }}><EditIcon fontSize="inherit" /></IconButton>
                       <IconButton size="small" onClick={(e) => onDeleteScore(e, score.id)}><DeleteIcon fontSize="inherit" /></IconButton>
                     </Box>
                   </MenuItem>
                 ))}
+                <Divider />
+                <MenuItem value={BROWSE_LIBRARY_VALUE}>
+                  <LibraryMusicIcon fontSize="small" color="action" sx={{ mr: 1 }} />
+                  <Typography variant="body2">Browse Library… ({scoreLibrary.length})</Typography>
+                </MenuItem>
               </Select>
             </FormControl>
           </Box>
 
+          <Tooltip title="Score Library">
+            <IconButton onClick={onOpenLibrary}>
+              <LibraryMusicIcon />
+            </IconButton>
+          </Tooltip>
+
           <Tooltip title="Settings & MIDI">
             <IconButton onClick={handleSettingsClick} color={open ? "primary" : "default"}>
               <TuneIcon />
@@ -231,7 +345,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </Button>
           <Button size="small" variant="contained" component="label" startIcon={<CloudUploadIcon />}>
             Open
-            <input type="file" hidden accept=".mxl,.xml,.musicxml" onChange={onFileUpload} />
+            <input type="file" hidden accept=".mxl,.xml,.musicxml,.mid,.midi" onChange={onFileUpload} />
           </Button>
         </Stack>
       </Paper>
@@ -249,8 +363,43 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             <SettingsIcon fontSize="small" /> Settings & MIDI
           </Typography>
           <Divider sx={{ mb: 2 }} />
+          {canBindScoreSettings && (
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 2 }}>
+              Pinned settings are saved with this score and restored when it is opened. The others are global defaults.
+            </Typography>
+          )}
           
           <Stack spacing={2.5}>
+            {/* Presets Section */}
+            <Box>
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>Preset</Typography>
+              <Stack direction="row" spacing={1}>
+                <FormControl fullWidth size="small">
+                  <Select
+                    displayEmpty
+                    value={activePresetId ?? ''}
+                    onChange={(e) => {
+                      const preset = presets.find((item) => item.id === e.target.value);
+                      if (preset) onApplyPreset(preset);
+                    }}
+                  >
+                    <MenuItem value="" disabled><em>Custom</em></MenuItem>
+                    {presets.map((preset) => <MenuItem key={preset.id} value={preset.id}>{preset.name}</MenuItem>)}
+                  </Select>
+                </FormControl>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  onClick={() => {
+                    handleSettingsClose();
+                    onOpenPresets();
+                  }}
+                >
+                  Manage
+                </Button>
+              </Stack>
+            </Box>
+
             {/* MIDI Input Section */}
             <Box>
               <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>MIDI Input Device</Typography>
@@ -263,21 +412,66 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   {availableMidiDevices.map((device) => (
                     <MenuItem key={device.id} value={device.id}>
                       <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                        <KeyboardIcon fontSize="small" color="action" />
+                        {device.isVirtual ? <ComputerIcon fontSize="small" color="action" /> : <KeyboardIcon fontSize="small" color="action" />}
                         {device.name}
                       </Box>
                     </MenuItem>
                   ))}
-                  {availableMidiDevices.length === 0 && (
-                    <MenuItem disabled>No devices detected</MenuItem>
+                  {availableMidiDevices.every((device) => device.isVirtual) && (
+                    <MenuItem disabled>No MIDI devices detected</MenuItem>
+                  )}
+                </Select>
+              </FormControl>
+              {selectedMidiDeviceId === COMPUTER_KEYBOARD_DEVICE.id && (
+                <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                  Keys A–' play C{computerKeyboard.baseNote / 12 - 1} upward (W, E, T… for black keys).
+                  Z / X: octave down / up. C / V: velocity down / up ({computerKeyboard.velocity}).
+                </Typography>
+              )}
+            </Box>
+
+            {/* MIDI Output Section */}
+            <Box>
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>MIDI Output Device</Typography>
+              <FormControl fullWidth size="small">
+                <Select
+                  value={settings.midiOutputId}
+                  displayEmpty
+                  onChange={(e) => updateSetting('midiOutputId', e.target.value)}
+                  renderValue={(selected) => {
+                    if (!selected) return <em>None</em>;
+                    return availableMidiOutputs.find((output) => output.id === selected)?.name ?? 'Disconnected device';
+                  }}
+                >
+                  <MenuItem value=""><em>None</em></MenuItem>
+                  {availableMidiOutputs.map((output) => (
+                    <MenuItem key={output.id} value={output.id}>{output.name}</MenuItem>
+                  ))}
+                  {availableMidiOutputs.length === 0 && (
+                    <MenuItem disabled>No MIDI outputs detected</MenuItem>
                   )}
                 </Select>
               </FormControl>
+              <Stack direction="row" spacing={2} flexWrap="wrap" sx={{ mt: 0.5 }}>
+                <FormControlLabel
+                  control={<Switch size="small" checked={settings.midiThru} disabled={!settings.midiOutputId} onChange={(e) => updateSetting('midiThru', e.target.checked)} />}
+                  label={<Typography variant="body2">MIDI Thru</Typography>}
+                />
+                <FormControlLabel
+                  control={<Switch size="small" checked={settings.internalSynthEnabled} onChange={(e) => updateSetting('internalSynthEnabled', e.target.checked)} />}
+                  label={<Typography variant="body2">Internal Sound</Typography>}
+                />
+              </Stack>
+              {settings.midiOutputId && (
+                <Typography variant="caption" color="text.secondary" display="block">
+                  Selections and score playback are sent on channel 1 (the lower or layer instrument on channel 2) with transpose and instrument applied. MIDI Thru also sends what you play.
+                </Typography>
+              )}
             </Box>
 
             {/* Instrument Section */}
             <Box>
-              <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>SoundFont</Typography>
+              {renderSettingLabel('SoundFont', 'selectedSoundFontId', 1)}
               <FormControl fullWidth size="small" sx={{ mb: 1 }}>
                 <Select
                   value={settings.selectedSoundFontId}
@@ -316,33 +510,96 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
             {/* Instrument Section */}
             <Box>
-              <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>Instrument (GeneralUser GS)</Typography>
-              <FormControl fullWidth size="small">
-                <Select
-                  value={settings.gmProgram}
-                  onChange={(e) => updateSetting('gmProgram', Number(e.target.value))}
-                  onOpen={onStartAudio}
-                  renderValue={(selected) => {
-                    const current = GM_INSTRUMENTS.find((instrument) => instrument.program === selected);
-                    return current ? `${current.program + 1}: ${current.name}` : String(selected);
-                  }}
-                >
-                  {groupedInstruments.flatMap(([category, instruments]) => [
-                    <ListSubheader key={`h-${category}`}>{category}</ListSubheader>,
-                    ...instruments.map((instrument) => (
-                      <MenuItem key={instrument.program} value={instrument.program} sx={{ display: 'flex', alignItems: 'center', gap: 1, pl: 3 }}>
-                        <PianoIcon fontSize="small" /> {instrument.program + 1}: {instrument.name}
-                      </MenuItem>
-                    )),
-                  ])}
-                </Select>
-              </FormControl>
+              {renderSettingLabel('Instrument (GeneralUser GS)', 'gmProgram', 1)}
+              {renderInstrumentSelect('gmProgram')}
               {!isSamplesLoaded && <CircularProgress size={14} sx={{ mt: 1 }} />}
               <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
                 Audio Engine: {audioEngine}
               </Typography>
             </Box>
 
+            {/* Keyboard Split / Layer Section */}
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="caption" color="text.secondary">Keyboard Mode</Typography>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={settings.keyboardMode}
+                  onChange={(_, value: KeyboardMode | null) => value && updateSetting('keyboardMode', value)}
+                >
+                  {KEYBOARD_MODE_OPTIONS.map((option) => (
+                    <ToggleButton key={option.key} value={option.key} sx={{ px: 1.5, py: 0.25 }}>{option.label}</ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+              </Box>
+              {settings.keyboardMode !== 'single' && (
+                <Stack spacing={1}>
+                  {settings.keyboardMode === 'split' && (
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">
+                        Split Point: keys below {formatNoteName(localSettings.splitPoint)} play the lower instrument
+                      </Typography>
+                      <Slider
+                        size="small" value={localSettings.splitPoint}
+                        onChange={handleSliderChange('splitPoint')}
+                        onChangeCommitted={handleSliderCommit('splitPoint')}
+                        min={36} max={84} step={1}
+                        marks={[{ value: 60, label: 'C4' }]}
+                        valueLabelDisplay="auto"
+                        valueLabelFormat={formatNoteName}
+                      />
+                    </Box>
+                  )}
+                  <Box>
+                    <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+                      {settings.keyboardMode === 'split' ? 'Lower Instrument' : 'Layer Instrument'}
+                    </Typography>
+                    {renderInstrumentSelect('secondaryGmProgram')}
+                  </Box>
+                  <Box>
+                    <Typography variant="caption" color="text.secondary">
+                      {settings.keyboardMode === 'split' ? 'Lower' : 'Layer'} Transpose (added to Audio Transpose)
+                    </Typography>
+                    <Slider
+                      size="small" value={localSettings.secondaryTranspose}
+                      onChange={handleSliderChange('secondaryTranspose')}
+                      onChangeCommitted={handleSliderCommit('secondaryTranspose')}
+                      min={-24} max={24} step={1}
+                      marks={[{ value: -12, label: '-12' }, { value: 0, label: '0' }, { value: 12, label: '+12' }]}
+                      valueLabelDisplay="auto"
+                    />
+                  </Box>
+                  <Stack direction="row" spacing={2}>
+                    <Box sx={{ flex: 1 }}>
+                      <Typography variant="caption" color="text.secondary">
+                        {settings.keyboardMode === 'split' ? 'Upper' : 'Main'} Volume
+                      </Typography>
+                      <Slider
+                        size="small" value={localSettings.primaryVolume}
+                        onChange={handleSliderChange('primaryVolume')}
+                        onChangeCommitted={handleSliderCommit('primaryVolume')}
+                        min={0} max={1} step={0.05}
+                        valueLabelDisplay="auto"
+                      />
+                    </Box>
+                    <Box sx={{ flex: 1 }}>
+                      <Typography variant="caption" color="text.secondary">
+                        {settings.keyboardMode === 'split' ? 'Lower' : 'Layer'} Volume
+                      </Typography>
+                      <Slider
+                        size="small" value={localSettings.secondaryVolume}
+                        onChange={handleSliderChange('secondaryVolume')}
+                        onChangeCommitted={handleSliderCommit('secondaryVolume')}
+                        min={0} max={1} step={0.05}
+                        valueLabelDisplay="auto"
+                      />
+                    </Box>
+                  </Stack>
+                </Stack>
+              )}
+            </Box>
+
             <Divider />
 
             {/* Display Toggles */}
@@ -363,6 +620,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 control={<Switch size="small" checked={settings.highlightBlackKeys} onChange={(e) => updateSetting('highlightBlackKeys', e.target.checked)} />}
                 label={<Typography variant="body2" sx={{ fontWeight: 'medium' }}>Black Key Color</Typography>}
               />
+              <FormControlLabel
+                control={<Switch size="small" checked={settings.autoScroll} onChange={(e) => updateSetting('autoScroll', e.target.checked)} />}
+                label={<Typography variant="body2">Auto Scroll</Typography>}
+              />
+              <FormControlLabel
+                control={<Switch size="small" checked={settings.halfPageTurn} disabled={!settings.autoScroll} onChange={(e) => updateSetting('halfPageTurn', e.target.checked)} />}
+                label={<Typography variant="body2">Half-Page Turn</Typography>}
+              />
             </Stack>
 
             <Divider />
@@ -380,7 +645,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             </Stack>
 
             <Box>
-              <Typography variant="caption" color="text.secondary">Reverb (Hall Ambience)</Typography>
+              {renderSettingLabel('Reverb (Hall Ambience)', 'reverb')}
               <Slider 
                 size="small" value={localSettings.reverb} 
                 onChange={handleSliderChange('reverb')}
@@ -391,7 +656,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             </Box>
 
             <Box>
-              <Typography variant="caption" color="text.secondary">Audio Transpose (Half-steps)</Typography>
+              {renderSettingLabel('Audio Transpose (Half-steps)', 'transpose')}
               <Slider 
                 size="small" value={localSettings.transpose} 
                 onChange={handleSliderChange('transpose')}
@@ -403,7 +668,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             </Box>
 
             <Box>
-              <Typography variant="caption" color="text.secondary">Visual Transpose (Sheet Music)</Typography>
+              {renderSettingLabel('Visual Transpose (Sheet Music)', 'visualTranspose')}
               <Slider 
                 size="small" value={localSettings.visualTranspose} 
                 onChange={handleSliderChange('visualTranspose')}
@@ -415,7 +680,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             </Box>
 
             <Box>
-              <Typography variant="caption" color="text.secondary">Velocity Sensitivity</Typography>
+              {renderSettingLabel('Velocity Sensitivity', 'velocitySensitivity')}
               <Slider 
                 size="small" value={localSettings.velocitySensitivity} 
                 onChange={handleSliderChange('velocitySensitivity')}
@@ -430,6 +695,93 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               label={<Typography variant="body2">Always Sustain (Pedal ON)</Typography>}
             />
 
+            <Divider />
+
+            {/* Metronome Section */}
+            <Box>
+              <Typography variant="caption" color="text.secondary" display="flex" alignItems="center" gap={0.5} sx={{ mb: 1 }}>
+                <AvTimerIcon fontSize="inherit" /> Metronome
+              </Typography>
+              <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+                <FormControl fullWidth size="small">
+                  <InputLabel id="metronome-sound-label">Sound</InputLabel>
+                  <Select
+                    labelId="metronome-sound-label"
+                    label="Sound"
+                    value={settings.metronomeSound}
+                    onChange={(e) => updateSetting('metronomeSound', e.target.value as MetronomeSound)}
+                  >
+                    <MenuItem value="percussion">Wood Block</MenuItem>
+                    <MenuItem value="oscillator">Beep</MenuItem>
+                  </Select>
+                </FormControl>
+                <FormControl fullWidth size="small">
+                  <InputLabel id="metronome-subdivision-label">Subdivision</InputLabel>
+                  <Select
+                    labelId="metronome-subdivision-label"
+                    label="Subdivision"
+                    value={settings.metronomeSubdivision}
+                    onChange={(e) => updateSetting('metronomeSubdivision', Number(e.target.value))}
+                  >
+                    <MenuItem value={1}>Beats only</MenuItem>
+                    <MenuItem value={2}>2 per beat</MenuItem>
+                    <MenuItem value={3}>3 per beat</MenuItem>
+                    <MenuItem value={4}>4 per beat</MenuItem>
+                  </Select>
+                </FormControl>
+              </Stack>
+              <Typography variant="caption" color="text.secondary">Count-in Bars</Typography>
+              <Slider
+                size="small" value={localSettings.metronomeCountInBars}
+                onChange={handleSliderChange('metronomeCountInBars')}
+                onChangeCommitted={handleSliderCommit('metronomeCountInBars')}
+                min={0} max={4} step={1}
+                marks
+                valueLabelDisplay="auto"
+              />
+              <FormControlLabel
+                control={<Switch size="small" checked={settings.metronomeFollowScoreTempo} onChange={(e) => updateSetting('metronomeFollowScoreTempo', e.target.checked)} />}
+                label={<Typography variant="body2">Follow Score Tempo</Typography>}
+              />
+            </Box>
+
+            {storageUsage && (
+              <Box>
+                <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 0.5 }}>
+                  Storage: {formatStorageSize(storageUsage.usage)} of {formatStorageSize(storageUsage.quota)} used
+                </Typography>
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(100, (storageUsage.usage / Math.max(1, storageUsage.quota)) * 100)}
+                  color={storageUsage.usage / Math.max(1, storageUsage.quota) > 0.8 ? 'warning' : 'primary'}
+                />
+              </Box>
+            )}
+
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<KeyboardIcon />}
+              onClick={() => {
+                handleSettingsClose();
+                onOpenShortcuts();
+              }}
+            >
+              Keyboard Shortcuts
+            </Button>
+
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<BackupIcon />}
+              onClick={() => {
+                handleSettingsClose();
+                onOpenBackup();
+              }}
+            >
+              Backup &amp; Restore
+            </Button>
+
             <Button size="small" color="error" variant="outlined" onClick={handleResetSettings}>
               Reset Settings
             </Button>
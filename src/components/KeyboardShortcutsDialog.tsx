@@ -0,0 +1,83 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography, Stack, Chip, Box
+} from '@mui/material';
+import { KeyBindings, ShortcutAction } from '../types/piano';
+import { assignKeyCombo, DEFAULT_KEY_BINDINGS, formatKeyCombo, getKeyCombo, SHORTCUT_ACTIONS } from '../utils/keyboardShortcuts';
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  keyBindings: KeyBindings;
+  onChange: (keyBindings: KeyBindings) => void;
+}
+
+const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({
+  open,
+  onClose,
+  keyBindings,
+  onChange
+}) => {
+  const [capturingAction, setCapturingAction] = React.useState<ShortcutAction | null>(null);
+
+  React.useEffect(() => {
+    if (!open) setCapturingAction(null);
+  }, [open]);
+
+  // 割り当て待ちの間は次に押されたキー（ペダルを含む）を記録する
+  React.useEffect(() => {
+    if (!capturingAction) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code === 'Escape') {
+        setCapturingAction(null);
+        return;
+      }
+      const combo = getKeyCombo(event);
+      if (!combo) return;
+      onChange(assignKeyCombo(keyBindings, capturingAction, combo));
+      setCapturingAction(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturingAction, keyBindings, onChange]);
+
+  const handleRemove = (action: ShortcutAction, combo: string) => {
+    onChange({ ...keyBindings, [action]: keyBindings[action].filter((item) => item !== combo) });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Keyboard Shortcuts</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Page-turner pedals work like keys: click Add, then press the pedal.
+        </Typography>
+        <Stack spacing={1.5}>
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <Box key={action} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography variant="body2" sx={{ width: 200, flexShrink: 0 }}>{label}</Typography>
+              {keyBindings[action].map((combo) => (
+                <Chip key={combo} size="small" label={formatKeyCombo(combo)} onDelete={() => handleRemove(action, combo)} />
+              ))}
+              <Button
+                size="small"
+                variant={capturingAction === action ? 'contained' : 'text'}
+                onClick={() => setCapturingAction(capturingAction === action ? null : action)}
+              >
+                {capturingAction === action ? 'Press a key…' : 'Add'}
+              </Button>
+            </Box>
+          ))}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button color="error" onClick={() => onChange(DEFAULT_KEY_BINDINGS)}>Reset to Defaults</Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsDialog;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Menu, MenuItem, ListItemIcon, ListItemText, ListSubheader } from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import HourglassTopIcon from '@mui/icons-material/HourglassTop';
+import AvTimerIcon from '@mui/icons-material/AvTimer';
+import RepeatIcon from '@mui/icons-material/Repeat';
+import { LoopRange, MeasureContext } from '../types/piano';
+
+export interface MeasureContextMenuState {
+  measure: MeasureContext;
+  clientX: number;
+  clientY: number;
+}
+
+interface MeasureContextMenuProps {
+  menu: MeasureContextMenuState | null;
+  onClose: () => void;
+  loopRange: LoopRange | null;
+  onPlayFrom: (measure: MeasureContext) => void;
+  onWaitFrom: (measure: MeasureContext) => void;
+  onMetronomeFrom: (measure: MeasureContext) => void;
+  onLoopMeasure: (measure: MeasureContext) => void;
+  onExtendLoop: (measure: MeasureContext) => void;
+}
+
+const MeasureContextMenu: React.FC<MeasureContextMenuProps> = ({
+  menu,
+  onClose,
+  loopRange,
+  onPlayFrom,
+  onWaitFrom,
+  onMetronomeFrom,
+  onLoopMeasure,
+  onExtendLoop
+}) => {
+  const runAction = (action: (measure: MeasureContext) => void) => () => {
+    if (menu) action(menu.measure);
+    onClose();
+  };
+
+  return (
+    <Menu
+      open={!!menu}
+      onClose={onClose}
+      anchorReference="anchorPosition"
+      anchorPosition={menu ? { top: menu.clientY, left: menu.clientX } : undefined}
+      onClick={(e) => e.stopPropagation()} // App 側の onClick (resetSelection) が呼ばれないようにする
+    >
+      <ListSubheader sx={{ lineHeight: '32px' }}>Measure {menu?.measure.measureNumber}</ListSubheader>
+      <MenuItem onClick={runAction(onPlayFrom)}>
+        <ListItemIcon><PlayArrowIcon fontSize="small" /></ListItemIcon>
+        <ListItemText>Play from Here</ListItemText>
+      </MenuItem>
+      <MenuItem onClick={runAction(onWaitFrom)}>
+        <ListItemIcon><HourglassTopIcon fontSize="small" /></ListItemIcon>
+        <ListItemText>Wait Mode from Here</ListItemText>
+      </MenuItem>
+      <MenuItem onClick={runAction(onMetronomeFrom)}>
+        <ListItemIcon><AvTimerIcon fontSize="small" /></ListItemIcon>
+        <ListItemText>Metronome from Here</ListItemText>
+      </MenuItem>
+      <MenuItem onClick={runAction(onLoopMeasure)}>
+        <ListItemIcon><RepeatIcon fontSize="small" /></ListItemIcon>
+        <ListItemText>Loop This Measure</ListItemText>
+      </MenuItem>
+      {loopRange && (
+        <MenuItem onClick={runAction(onExtendLoop)}>
+          <ListItemIcon><RepeatIcon fontSize="small" color="warning" /></ListItemIcon>
+          <ListItemText>Extend Loop to Here</ListItemText>
+        </MenuItem>
+      )}
+    </Menu>
+  );
+};
+
+export default MeasureContextMenu;
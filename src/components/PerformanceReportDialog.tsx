@@ -0,0 +1,88 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Table, TableHead, TableBody, TableRow, TableCell,
+  Typography, Box, Stack, Chip
+} from '@mui/material';
+import { PerformanceReport } from '../types/piano';
+import { getMeasureGrade, MEASURE_GRADE_COLORS } from '../utils/performanceAnalysis';
+
+interface PerformanceReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  report: PerformanceReport | null;
+  onShowMeasure: (measureNumber: number) => void;
+}
+
+const formatTiming = (ms: number | null) => {
+  if (ms === null) return '–';
+  if (ms === 0) return '±0 ms';
+  return `${ms > 0 ? '+' : ''}${ms} ms`;
+};
+
+const PerformanceReportDialog: React.FC<PerformanceReportDialogProps> = ({
+  open,
+  onClose,
+  report,
+  onShowMeasure
+}) => {
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Performance Report{report ? `: ${report.recordingName}` : ''}</DialogTitle>
+      <DialogContent dividers>
+        {!report || report.measures.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No notes of this take could be matched to the score.</Typography>
+        ) : (
+          <>
+            <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', rowGap: 1 }}>
+              <Chip color="primary" label={`Accuracy ${Math.round(report.accuracy * 100)}%`} />
+              <Chip variant="outlined" label={`Correct ${report.correctNotes} / ${report.expectedNotes}`} />
+              <Chip variant="outlined" color="error" label={`Wrong ${report.wrongNotes}`} />
+              <Chip variant="outlined" color="warning" label={`Missed ${report.missedNotes}`} />
+              <Chip variant="outlined" label={`Extra ${report.extraNotes}`} />
+              <Chip variant="outlined" label={`Timing ±${report.meanAbsTimingMs ?? 0} ms @ ♩=${report.tempo}`} />
+            </Stack>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Measure</TableCell>
+                  <TableCell align="right">Correct</TableCell>
+                  <TableCell align="right">Wrong</TableCell>
+                  <TableCell align="right">Missed</TableCell>
+                  <TableCell align="right">Extra</TableCell>
+                  <TableCell align="right">Timing (mean)</TableCell>
+                  <TableCell align="right">Timing (abs)</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.measures.map((measure) => (
+                  <TableRow key={measure.measureNumber} hover sx={{ cursor: 'pointer' }} onClick={() => onShowMeasure(measure.measureNumber)}>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: MEASURE_GRADE_COLORS[getMeasureGrade(measure)] }} />
+                        {measure.measureNumber}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right">{measure.correctNotes} / {measure.expectedNotes}</TableCell>
+                    <TableCell align="right">{measure.wrongNotes || ''}</TableCell>
+                    <TableCell align="right">{measure.missedNotes || ''}</TableCell>
+                    <TableCell align="right">{measure.extraNotes || ''}</TableCell>
+                    <TableCell align="right">{formatTiming(measure.meanTimingMs)}</TableCell>
+                    <TableCell align="right">{measure.meanAbsTimingMs === null ? '–' : `${measure.meanAbsTimingMs} ms`}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              Positive timing means late. Click a measure to jump to it on the score.
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PerformanceReportDialog;
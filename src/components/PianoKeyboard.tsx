@@ -1,5 +1,7 @@
 import React from 'react';
-import { Box } from '@mui/material';
+import { Box, IconButton } from '@mui/material';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import { isDiatonic } from '../utils/osmdCoordinates';
 
 interface PianoKeyboardProps {
@@ -8,15 +10,26 @@ interface PianoKeyboardProps {
   keySig?: number | null; // 調
   minNote?: number; 
   maxNote?: number; 
+  onNoteOn?: (midi: number, velocity: number) => void; // velocity: 1-127
+  onNoteOff?: (midi: number) => void;
 }
 
+const MIN_TOUCH_VELOCITY = 30;
+
 const PianoKeyboard: React.FC<PianoKeyboardProps> = ({ 
   activeNotes, 
   highlightNotes = new Set(),
   keySig = null,
   minNote = 21, 
-  maxNote = 108 
+  maxNote = 108,
+  onNoteOn,
+  onNoteOff
 }) => {
+  const svgRef = React.useRef<SVGSVGElement>(null);
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const [scrollable, setScrollable] = React.useState({ left: false, right: false });
+  const pointerNotesRef = React.useRef(new Map<number, number>()); // pointerId -> 押さえている MIDI ノート番号
+
   const whiteKeys: number[] = [];
   const blackKeys: number[] = [];
 
@@ -40,6 +53,109 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
 
   const totalWidth = whiteKeys.length * whiteKeyWidth;
 
+  const getBlackKeyX = (note: number) => {
+    let prevWhite = note - 1;
+    while (!whiteKeyIndexMap.has(prevWhite) && prevWhite > 0) prevWhite--;
+    const whiteIdx = whiteKeyIndexMap.get(prevWhite) ?? 0;
+    return (whiteIdx + 1) * whiteKeyWidth - (blackKeyWidth / 2);
+  };
+
+  // 黒鍵は白鍵の上に重なっているため先に判定する
+  const getNoteAtPoint = (x: number, y: number): number | null => {
+    if (y < 0 || y > whiteKeyHeight) return null;
+    if (y <= blackKeyHeight) {
+      const black = blackKeys.find((note) => {
+        const keyX = getBlackKeyX(note);
+        return x >= keyX && x <= keyX + blackKeyWidth;
+      });
+      if (black !== undefined) return black;
+    }
+    return whiteKeys[Math.floor(x / whiteKeyWidth)] ?? null;
+  };
+
+  // ペンは筆圧、指やマウスは鍵盤の手前側を押すほど強くする
+  const getVelocity = (event: React.PointerEvent, note: number, y: number) => {
+    if (event.pointerType === 'pen' && event.pressure > 0) {
+      return Math.max(1, Math.round(event.pressure * 127));
+    }
+    const keyHeight = isBlackKey(note) ? blackKeyHeight : whiteKeyHeight;
+    const ratio = Math.min(1, Math.max(0, y / keyHeight));
+    return Math.round(MIN_TOUCH_VELOCITY + ratio * (127 - MIN_TOUCH_VELOCITY));
+  };
+
+  const getLocalPoint = (event: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const isHeldByOtherPointer = (pointerId: number, note: number) =>
+    Array.from(pointerNotesRef.current.entries()).some(([id, held]) => id !== pointerId && held === note);
+
+  const releasePointer = (pointerId: number) => {
+    const note = pointerNotesRef.current.get(pointerId);
+    if (note === undefined) return;
+    pointerNotesRef.current.delete(pointerId);
+    if (!isHeldByOtherPointer(pointerId, note)) onNoteOff?.(note);
+  };
+
+  const pressNote = (event: React.PointerEvent) => {
+    const { x, y } = getLocalPoint(event);
+    const note = getNoteAtPoint(x, y);
+    const current = pointerNotesRef.current.get(event.pointerId);
+    if (note === current) return;
+    releasePointer(event.pointerId);
+    if (note === null) return;
+    pointerNotesRef.current.set(event.pointerId, note);
+    if (!isHeldByOtherPointer(event.pointerId, note)) onNoteOn?.(note, getVelocity(event, note, y));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!onNoteOn || (event.pointerType === 'mouse' && event.button !== 0)) return;
+    event.preventDefault();
+    // 指を滑らせたまま隣の鍵盤へ移るグリッサンドのため、ポインタを鍵盤全体で捕捉する
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pressNote(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!pointerNotesRef.current.has(event.pointerId)) return;
+    pressNote(event);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    releasePointer(event.pointerId);
+  };
+
+  // アンマウント時に押さえたままの音を止める
+  const onNoteOffRef = React.useRef(onNoteOff);
+  React.useEffect(() => {
+    onNoteOffRef.current = onNoteOff;
+  }, [onNoteOff]);
+  React.useEffect(() => () => {
+    const pointerNotes = pointerNotesRef.current;
+    new Set(pointerNotes.values()).forEach((note) => onNoteOffRef.current?.(note));
+    pointerNotes.clear();
+  }, []);
+
+  // 鍵盤上のタッチは演奏に使うため、画面に収まらない部分はボタンで 1 オクターブずつ送る
+  const updateScrollable = React.useCallback(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const left = container.scrollLeft > 0;
+    const right = container.scrollLeft + container.clientWidth < container.scrollWidth - 1;
+    setScrollable((prev) => prev.left === left && prev.right === right ? prev : { left, right });
+  }, []);
+
+  React.useEffect(() => {
+    updateScrollable();
+    window.addEventListener('resize', updateScrollable);
+    return () => window.removeEventListener('resize', updateScrollable);
+  }, [updateScrollable, totalWidth]);
+
+  const scrollByOctave = (direction: -1 | 1) => {
+    scrollRef.current?.scrollBy({ left: direction * whiteKeyWidth * 7, behavior: 'smooth' });
+  };
+
   const getKeyColor = (note: number, isBlack: boolean) => {
     // Priority: 1. Active(Red) 2. Selected(Green) 3. Scale(Blue) 4. Normal
     if (activeNotes.has(note)) return '#ff5252'; 
@@ -53,60 +169,92 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
     }
   };
 
+  const scrollButtonSx = {
+    position: 'absolute',
+    top: '50%',
+    transform: 'translateY(-50%)',
+    zIndex: 1,
+    color: '#fff',
+    bgcolor: 'rgba(0,0,0,0.6)',
+    '&:hover': { bgcolor: 'rgba(0,0,0,0.8)' }
+  } as const;
+
   return (
-    <Box 
-      sx={{ 
-        width: '100%', 
-        overflowX: 'auto', 
-        py: 2, 
-        display: 'flex', 
-        justifyContent: 'center',
-        bgcolor: '#1a1a1a',
-        borderTop: '3px solid #333'
-      }}
-      onClick={(e) => e.stopPropagation()}
-    >
-      <svg 
-        width={totalWidth} 
-        height={whiteKeyHeight} 
-        viewBox={`0 0 ${totalWidth} ${whiteKeyHeight}`}
-        style={{ userSelect: 'none', filter: 'drop-shadow(0px 2px 4px rgba(0,0,0,0.5))' }}
+    <Box sx={{ position: 'relative', bgcolor: '#1a1a1a', borderTop: '3px solid #333' }} onClick={(e) => e.stopPropagation()}>
+      {scrollable.left && (
+        <IconButton size="small" aria-label="Scroll keyboard left" onClick={() => scrollByOctave(-1)} sx={{ ...scrollButtonSx, left: 4 }}>
+          <ChevronLeftIcon />
+        </IconButton>
+      )}
+      {scrollable.right && (
+        <IconButton size="small" aria-label="Scroll keyboard right" onClick={() => scrollByOctave(1)} sx={{ ...scrollButtonSx, right: 4 }}>
+          <ChevronRightIcon />
+        </IconButton>
+      )}
+      <Box 
+        ref={scrollRef}
+        sx={{ 
+          width: '100%', 
+          overflowX: 'auto', 
+          py: 2, 
+          display: 'flex'
+        }}
+        onScroll={updateScrollable}
       >
-        {whiteKeys.map((note, i) => (
-          <rect
-            key={note}
-            x={i * whiteKeyWidth}
-            y={0}
-            width={whiteKeyWidth - 1}
-            height={whiteKeyHeight}
-            fill={getKeyColor(note, false)}
-            stroke="#ccc"
-            strokeWidth="0.5"
-            rx={1}
-          />
-        ))}
-
-        {blackKeys.map((note) => {
-          let prevWhite = note - 1;
-          while (!whiteKeyIndexMap.has(prevWhite) && prevWhite > 0) prevWhite--;
-          const whiteIdx = whiteKeyIndexMap.get(prevWhite) ?? 0;
-          const x = (whiteIdx + 1) * whiteKeyWidth - (blackKeyWidth / 2);
-
-          return (
+        <svg 
+          ref={svgRef}
+          width={totalWidth} 
+          height={whiteKeyHeight} 
+          viewBox={`0 0 ${totalWidth} ${whiteKeyHeight}`}
+          style={{
+            // 中央寄せを margin で行い、はみ出したときに左端までスクロールできるようにする
+            margin: '0 auto',
+            flexShrink: 0,
+            userSelect: 'none',
+            filter: 'drop-shadow(0px 2px 4px rgba(0,0,0,0.5))',
+            touchAction: onNoteOn ? 'none' : undefined,
+            cursor: onNoteOn ? 'pointer' : undefined
+          }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onLostPointerCapture={handlePointerUp}
+          onContextMenu={onNoteOn ? (e) => e.preventDefault() : undefined}
+        >
+          {whiteKeys.map((note, i) => (
             <rect
               key={note}
-              x={x}
+              x={i * whiteKeyWidth}
               y={0}
-              width={blackKeyWidth}
-              height={blackKeyHeight}
-              fill={getKeyColor(note, true)}
-              stroke={(keySig !== null && isDiatonic(note, keySig)) || highlightNotes.has(note) ? '#000' : '#000'}
-              strokeWidth="1"
-              rx={2}
+              width={whiteKeyWidth - 1}
+              height={whiteKeyHeight}
+              fill={getKeyColor(note, false)}
+              stroke="#ccc"
+              strokeWidth="0.5"
+              rx={1}
             />
-          );
-        })}
-      </svg>
+          ))}
+
+          {blackKeys.map((note) => {
+            const x = getBlackKeyX(note);
+
+            return (
+              <rect
+                key={note}
+                x={x}
+                y={0}
+                width={blackKeyWidth}
+                height={blackKeyHeight}
+                fill={getKeyColor(note, true)}
+                stroke={(keySig !== null && isDiatonic(note, keySig)) || highlightNotes.has(note) ? '#000' : '#000'}
+                strokeWidth="1"
+                rx={2}
+              />
+            );
+          })}
+        </svg>
+      </Box>
     </Box>
   );
 };
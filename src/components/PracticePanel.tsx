@@ -0,0 +1,300 @@
+import React from 'react';
+import {
+  Box, Paper, Stack, Button, Tooltip, IconButton, Typography, Slider, Divider, ToggleButton, ToggleButtonGroup,
+  Chip, FormControlLabel, Switch
+} from '@mui/material';
+import HourglassTopIcon from '@mui/icons-material/HourglassTop';
+import ReplayIcon from '@mui/icons-material/Replay';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import StopIcon from '@mui/icons-material/Stop';
+import RepeatIcon from '@mui/icons-material/Repeat';
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
+import LibraryMusicIcon from '@mui/icons-material/LibraryMusic';
+import AssessmentIcon from '@mui/icons-material/Assessment';
+import QueryStatsIcon from '@mui/icons-material/QueryStats';
+import AvTimerIcon from '@mui/icons-material/AvTimer';
+import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import { PlaybackState } from '../hooks/usePlayback';
+import { MetronomePosition } from '../hooks/useMetronome';
+import { TempoTrainerRep } from '../hooks/useTempoTrainer';
+import { LoopRange, PracticeHand } from '../types/piano';
+
+interface PracticePanelProps {
+  hasColumns: boolean;
+  isWaitMode: boolean;
+  isWaitComplete: boolean;
+  waitPosition: number;
+  totalColumns: number;
+  onToggleWaitMode: () => void;
+  onRestartWaitMode: () => void;
+  playbackState: PlaybackState;
+  playbackTempo: number;
+  onPlaybackTempoChange: (tempo: number) => void;
+  onPlayPause: () => void;
+  onStopPlayback: () => void;
+  isMetronomeRunning: boolean;
+  metronomePosition: MetronomePosition | null;
+  onToggleMetronome: () => void;
+  practiceHand: PracticeHand;
+  onPracticeHandChange: (hand: PracticeHand) => void;
+  loopRange: LoopRange | null;
+  loopPickStage: 'idle' | 'start' | 'end';
+  onStartLoopPick: () => void;
+  onCancelLoopPick: () => void;
+  onClearLoop: () => void;
+  loopCountIn: boolean;
+  onLoopCountInChange: (enabled: boolean) => void;
+  isRecording: boolean;
+  takeCount: number;
+  onToggleRecording: () => void;
+  onOpenRecordings: () => void;
+  reportAccuracy: number | null;
+  onOpenReport: () => void;
+  onClearReport: () => void;
+  onOpenStats: () => void;
+  isTrainerRunning: boolean;
+  isTrainerComplete: boolean;
+  trainerPercent: number | null;
+  trainerTempo: number | null;
+  lastTrainerRep: TempoTrainerRep | null;
+  onOpenTrainer: () => void;
+  onStopTrainer: () => void;
+}
+
+const PracticePanel: React.FC<PracticePanelProps> = ({
+  hasColumns,
+  isWaitMode,
+  isWaitComplete,
+  waitPosition,
+  totalColumns,
+  onToggleWaitMode,
+  onRestartWaitMode,
+  playbackState,
+  playbackTempo,
+  onPlaybackTempoChange,
+  onPlayPause,
+  onStopPlayback,
+  isMetronomeRunning,
+  metronomePosition,
+  onToggleMetronome,
+  practiceHand,
+  onPracticeHandChange,
+  loopRange,
+  loopPickStage,
+  onStartLoopPick,
+  onCancelLoopPick,
+  onClearLoop,
+  loopCountIn,
+  onLoopCountInChange,
+  isRecording,
+  takeCount,
+  onToggleRecording,
+  onOpenRecordings,
+  reportAccuracy,
+  onOpenReport,
+  onClearReport,
+  onOpenStats,
+  isTrainerRunning,
+  isTrainerComplete,
+  trainerPercent,
+  trainerTempo,
+  lastTrainerRep,
+  onOpenTrainer,
+  onStopTrainer
+}) => {
+  const [localTempo, setLocalTempo] = React.useState(playbackTempo);
+
+  React.useEffect(() => {
+    setLocalTempo(playbackTempo);
+  }, [playbackTempo]);
+
+  return (
+    <Paper
+      sx={{ p: 1.5, mb: 2, display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={practiceHand}
+        onChange={(_, value: PracticeHand | null) => value && onPracticeHandChange(value)}
+      >
+        <ToggleButton value="left" sx={{ px: 1.5 }}>Left</ToggleButton>
+        <ToggleButton value="both" sx={{ px: 1.5 }}>Both</ToggleButton>
+        <ToggleButton value="right" sx={{ px: 1.5 }}>Right</ToggleButton>
+      </ToggleButtonGroup>
+
+      <Divider orientation="vertical" flexItem />
+
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Tooltip title="Wait for the correct notes before moving to the next column">
+          <span>
+            <Button
+              size="small"
+              variant={isWaitMode ? 'contained' : 'outlined'}
+              color={isWaitMode ? 'success' : 'primary'}
+              startIcon={<HourglassTopIcon />}
+              onClick={onToggleWaitMode}
+              disabled={!hasColumns}
+            >
+              Wait Mode
+            </Button>
+          </span>
+        </Tooltip>
+        {isWaitMode && (
+          <>
+            <Tooltip title="Restart from the beginning">
+              <IconButton size="small" onClick={onRestartWaitMode}><ReplayIcon fontSize="small" /></IconButton>
+            </Tooltip>
+            <Typography variant="caption" sx={{ fontFamily: 'monospace', color: isWaitComplete ? 'success.main' : 'text.secondary' }}>
+              {isWaitComplete ? 'Complete!' : `${waitPosition} / ${totalColumns}`}
+            </Typography>
+          </>
+        )}
+      </Stack>
+
+      <Divider orientation="vertical" flexItem />
+
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Tooltip title={playbackState === 'playing' ? 'Pause' : 'Play score'}>
+          <span>
+            <IconButton size="small" color="primary" onClick={onPlayPause} disabled={!hasColumns}>
+              {playbackState === 'playing' ? <PauseIcon /> : <PlayArrowIcon />}
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Stop">
+          <span>
+            <IconButton size="small" onClick={onStopPlayback} disabled={playbackState === 'stopped'}>
+              <StopIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Box sx={{ width: 160, display: 'flex', alignItems: 'center', gap: 1.5 }}>
+          <Slider
+            size="small"
+            value={localTempo}
+            onChange={(_, value) => setLocalTempo(value as number)}
+            onChangeCommitted={(_, value) => onPlaybackTempoChange(value as number)}
+            min={30} max={240} step={1}
+          />
+          <Typography variant="caption" sx={{ fontFamily: 'monospace', whiteSpace: 'nowrap' }}>
+            ♩={localTempo}
+          </Typography>
+        </Box>
+        <Tooltip title="Metronome (follows the meter of the score)">
+          <span>
+            <IconButton size="small" color={isMetronomeRunning ? 'secondary' : 'default'} onClick={onToggleMetronome} disabled={!hasColumns}>
+              <AvTimerIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        {isMetronomeRunning && metronomePosition && (
+          <Typography variant="caption" sx={{ fontFamily: 'monospace', whiteSpace: 'nowrap', color: metronomePosition.beat === 1 ? 'secondary.main' : 'text.secondary' }}>
+            {metronomePosition.measureNumber === null ? 'Count-in' : `m.${metronomePosition.measureNumber}`}
+            {` ${metronomePosition.timeSignature.numerator}/${metronomePosition.timeSignature.denominator}`}
+            {` ${metronomePosition.beat}/${metronomePosition.beats}`}
+            {` ♩=${Math.round(metronomePosition.tempo)}`}
+          </Typography>
+        )}
+      </Stack>
+
+      <Divider orientation="vertical" flexItem />
+
+      <Stack direction="row" spacing={1} alignItems="center">
+        {loopPickStage !== 'idle' ? (
+          <>
+            <Typography variant="body2" color="warning.main">
+              {loopPickStage === 'start' ? 'Click the start measure' : 'Click the end measure'}
+            </Typography>
+            <Button size="small" onClick={onCancelLoopPick}>Cancel</Button>
+          </>
+        ) : loopRange ? (
+          <Chip
+            size="small"
+            color="warning"
+            variant="outlined"
+            icon={<RepeatIcon />}
+            label={`Loop m.${loopRange.startMeasure}–${loopRange.endMeasure}`}
+            onClick={onStartLoopPick}
+            onDelete={onClearLoop}
+          />
+        ) : (
+          <Button size="small" variant="outlined" color="warning" startIcon={<RepeatIcon />} onClick={onStartLoopPick} disabled={!hasColumns}>
+            A–B Loop
+          </Button>
+        )}
+        {isTrainerRunning ? (
+          <Chip
+            size="small"
+            color="secondary"
+            icon={<TrendingUpIcon />}
+            label={`${trainerPercent}% ♩=${trainerTempo}${lastTrainerRep ? ` · last ${Math.round(lastTrainerRep.accuracy * 100)}%` : ''}`}
+            onDelete={onStopTrainer}
+          />
+        ) : (
+          <Tooltip title="Tempo ladder: raise the tempo after each clean repetition of the loop">
+            <span>
+              <Button
+                size="small"
+                color={isTrainerComplete ? 'success' : 'secondary'}
+                startIcon={<TrendingUpIcon />}
+                onClick={onOpenTrainer}
+                disabled={!hasColumns}
+              >
+                {isTrainerComplete ? 'Target Reached' : 'Ladder'}
+              </Button>
+            </span>
+          </Tooltip>
+        )}
+        <FormControlLabel
+          control={<Switch size="small" checked={loopCountIn} onChange={(e) => onLoopCountInChange(e.target.checked)} />}
+          label={<Typography variant="body2">Count-in</Typography>}
+        />
+      </Stack>
+
+      <Divider orientation="vertical" flexItem />
+
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Button
+          size="small"
+          variant={isRecording ? 'contained' : 'outlined'}
+          color="error"
+          startIcon={<FiberManualRecordIcon />}
+          onClick={onToggleRecording}
+        >
+          {isRecording ? 'Stop Rec' : 'Record'}
+        </Button>
+        <Tooltip title="Recorded takes">
+          <Button size="small" startIcon={<LibraryMusicIcon />} onClick={onOpenRecordings}>
+            Takes ({takeCount})
+          </Button>
+        </Tooltip>
+        {reportAccuracy !== null && (
+          <Tooltip title="Performance report of the last analyzed take">
+            <Chip
+              size="small"
+              color={reportAccuracy >= 0.95 ? 'success' : reportAccuracy >= 0.75 ? 'warning' : 'error'}
+              variant="outlined"
+              icon={<AssessmentIcon />}
+              label={`${Math.round(reportAccuracy * 100)}%`}
+              onClick={onOpenReport}
+              onDelete={onClearReport}
+            />
+          </Tooltip>
+        )}
+      </Stack>
+
+      <Divider orientation="vertical" flexItem />
+
+      <Tooltip title="Practice history and statistics">
+        <Button size="small" startIcon={<QueryStatsIcon />} onClick={onOpenStats}>
+          Stats
+        </Button>
+      </Tooltip>
+    </Paper>
+  );
+};
+
+export default PracticePanel;
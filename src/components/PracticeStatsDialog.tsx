@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography, Box, Stack, Chip, Tooltip,
+  ToggleButtonGroup, ToggleButton, List, ListItem, ListItemText, Divider
+} from '@mui/material';
+import { PracticeSession } from '../types/piano';
+import { getMeasurePracticeCounts, getPracticeTotals, PracticePeriod, summarizePracticeSessions } from '../utils/practiceStats';
+
+interface PracticeStatsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  scoreName: string;
+  sessions: PracticeSession[];
+}
+
+const CHART_HEIGHT = 120;
+
+const formatMinutes = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const formatPercent = (value: number | null) => value === null ? '–' : `${Math.round(value * 100)}%`;
+
+const PracticeStatsDialog: React.FC<PracticeStatsDialogProps> = ({
+  open,
+  onClose,
+  scoreName,
+  sessions
+}) => {
+  const [period, setPeriod] = useState<PracticePeriod>('day');
+
+  const totals = useMemo(() => getPracticeTotals(sessions), [sessions]);
+  const summaries = useMemo(() => summarizePracticeSessions(sessions, period), [sessions, period]);
+  const measureCounts = useMemo(() => getMeasurePracticeCounts(sessions).slice(0, 12), [sessions]);
+  const maxDuration = Math.max(1, ...summaries.map((summary) => summary.durationMs));
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Practice Statistics: {scoreName}</DialogTitle>
+      <DialogContent dividers>
+        {sessions.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No practice sessions recorded for this score yet.</Typography>
+        ) : (
+          <Stack spacing={2}>
+            <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap', rowGap: 1 }}>
+              <Chip variant="outlined" label={`${totals.sessionCount} sessions`} />
+              <Chip variant="outlined" label={`Total ${formatMinutes(totals.durationMs)}`} />
+              <Chip variant="outlined" label={`Accuracy ${formatPercent(totals.accuracy)}`} />
+              <Chip variant="outlined" label={`Best tempo ${totals.bestTempo !== null ? `♩=${totals.bestTempo}` : '–'}`} />
+              {totals.lastPracticedAt !== null && (
+                <Chip variant="outlined" label={`Last ${new Date(totals.lastPracticedAt).toLocaleDateString()}`} />
+              )}
+            </Stack>
+
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="subtitle2">Practice time</Typography>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={period}
+                  onChange={(_, value: PracticePeriod | null) => value && setPeriod(value)}
+                >
+                  <ToggleButton value="day" sx={{ px: 1.5 }}>Days</ToggleButton>
+                  <ToggleButton value="week" sx={{ px: 1.5 }}>Weeks</ToggleButton>
+                </ToggleButtonGroup>
+              </Box>
+              <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 0.5, height: CHART_HEIGHT }}>
+                {summaries.map((summary) => (
+                  <Tooltip
+                    key={summary.start}
+                    title={`${summary.label}: ${formatMinutes(summary.durationMs)}, ${summary.sessionCount} sessions, ${summary.measureCount} measures, accuracy ${formatPercent(summary.accuracy)}${summary.tempo !== null ? `, ♩=${summary.tempo}` : ''}`}
+                  >
+                    <Box
+                      sx={{
+                        flex: 1,
+                        height: Math.max(2, (summary.durationMs / maxDuration) * CHART_HEIGHT),
+                        bgcolor: summary.durationMs > 0 ? 'primary.main' : 'grey.300',
+                        borderRadius: '3px 3px 0 0'
+                      }}
+                    />
+                  </Tooltip>
+                ))}
+              </Box>
+              <Box sx={{ display: 'flex', gap: 0.5, mt: 0.5 }}>
+                {summaries.map((summary) => (
+                  <Box key={summary.start} sx={{ flex: 1, textAlign: 'center', minWidth: 0 }}>
+                    <Typography variant="caption" sx={{ display: 'block', fontSize: '0.65rem' }} noWrap>{summary.label}</Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.65rem' }} noWrap>
+                      {formatPercent(summary.accuracy)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.65rem' }} noWrap>
+                      {summary.tempo !== null ? `♩${summary.tempo}` : '–'}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+            </Box>
+
+            {measureCounts.length > 0 && (
+              <Box>
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>Most practiced measures</Typography>
+                <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap', rowGap: 1 }}>
+                  {measureCounts.map((entry) => (
+                    <Chip key={entry.measureNumber} size="small" label={`m.${entry.measureNumber} × ${entry.count}`} />
+                  ))}
+                </Stack>
+              </Box>
+            )}
+
+            <Divider />
+
+            <Box>
+              <Typography variant="subtitle2">Recent sessions</Typography>
+              <List dense disablePadding>
+                {sessions.slice(0, 10).map((session) => (
+                  <ListItem key={session.id} divider>
+                    <ListItemText
+                      primary={`${new Date(session.startedAt).toLocaleString()} · ${formatMinutes(session.durationMs)}`}
+                      secondary={[
+                        session.measures.length > 0 ? `m.${session.measures[0]}–${session.measures[session.measures.length - 1]}` : null,
+                        `${session.notesPlayed} notes`,
+                        session.accuracy !== null ? `accuracy ${formatPercent(session.accuracy)}` : null,
+                        session.tempo !== null ? `♩=${session.tempo}` : null
+                      ].filter(Boolean).join(' · ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PracticeStatsDialog;
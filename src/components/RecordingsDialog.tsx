@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, List, ListItem, ListItemText,
+  IconButton, Tooltip, Typography, Box
+} from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AssessmentIcon from '@mui/icons-material/Assessment';
+import { MidiRecording } from '../types/piano';
+import { MidiFileFormat } from '../utils/midiFile';
+
+interface RecordingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  scoreName: string;
+  takes: MidiRecording[];
+  onDownload: (take: MidiRecording, format: MidiFileFormat) => void;
+  onAnalyze: (take: MidiRecording) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const RecordingsDialog: React.FC<RecordingsDialogProps> = ({
+  open,
+  onClose,
+  scoreName,
+  takes,
+  onDownload,
+  onAnalyze,
+  onDelete
+}) => {
+  const handleDelete = (take: MidiRecording) => {
+    const confirmed = window.confirm(`Delete "${take.name}"?`);
+    if (!confirmed) return;
+    onDelete(take.id);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Recordings: {scoreName}</DialogTitle>
+      <DialogContent dividers>
+        {takes.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No recordings for this score yet.</Typography>
+        ) : (
+          <List dense disablePadding>
+            {takes.map((take) => (
+              <ListItem
+                key={take.id}
+                divider
+                secondaryAction={
+                  <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                    <Tooltip title="Compare with the score">
+                      <IconButton size="small" onClick={() => onAnalyze(take)}><AssessmentIcon fontSize="small" /></IconButton>
+                    </Tooltip>
+                    <Tooltip title="Download as MIDI type 0 (single track)">
+                      <Button size="small" startIcon={<FileDownloadIcon />} onClick={() => onDownload(take, 0)}>Type 0</Button>
+                    </Tooltip>
+                    <Tooltip title="Download as MIDI type 1 (multi track)">
+                      <Button size="small" startIcon={<FileDownloadIcon />} onClick={() => onDownload(take, 1)}>Type 1</Button>
+                    </Tooltip>
+                    <IconButton size="small" onClick={() => handleDelete(take)}><DeleteIcon fontSize="small" /></IconButton>
+                  </Box>
+                }
+              >
+                <ListItemText
+                  primary={take.name}
+                  secondary={`${new Date(take.createdAt).toLocaleString()} · ${formatDuration(take.durationMs)} · ${take.events.filter((event) => event.type === 'note-on').length} notes`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RecordingsDialog;
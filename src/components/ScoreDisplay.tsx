@@ -1,7 +1,8 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import { OpenSheetMusicDisplay, PointF2D, TransposeCalculator } from 'opensheetmusicdisplay';
-import { MeasureContext, NoteDetail, SelectionResult } from '../types/piano';
-import { extractMeasureContexts, calculateYForMidi, getPixelPerUnit, isDiatonic, getMeasureAtPoint, getColumnKeyFromTimestamp } from '../utils/osmdCoordinates';
+import { LoopRange, MeasureAccuracy, MeasureContext, NoteDetail, PracticeHand, ScoreColumn, SelectionResult, SystemScrollRequest } from '../types/piano';
+import { extractMeasureContexts, calculateYForMidi, getPixelPerUnit, isDiatonic, getMeasureAtPoint, getColumnKeyFromTimestamp, isStaffInHand } from '../utils/osmdCoordinates';
+import { getMeasureGrade, MEASURE_GRADE_COLORS } from '../utils/performanceAnalysis';
 
 interface ScoreDisplayProps {
   data: string;
@@ -11,10 +12,42 @@ interface ScoreDisplayProps {
   onSelectionChange?: (selection: SelectionResult | null, forcePlay: boolean) => void;
   onTitleReady?: (title: string) => void;
   onLoadingStateChange?: (isLoading: boolean) => void;
+  onContextsChange?: (contexts: MeasureContext[]) => void;
+  onMeasurePick?: (measure: MeasureContext) => void; // 指定時はクリックで列選択の代わりに小節を選ぶ
+  onMeasureLongPress?: (measure: MeasureContext, point: { clientX: number; clientY: number }) => void; // 長押し・右クリック
   selection?: SelectionResult | null;
+  cursorColumn?: ScoreColumn | null;
+  loopRange?: LoopRange | null;
+  measureAccuracy?: MeasureAccuracy[] | null; // 演奏レポートの小節ごとの評価を色で重ねる
+  followMeasure?: MeasureContext | null; // 現在位置。この小節の段が見えるように自動スクロールする
+  autoScroll?: boolean;
+  halfPageTurn?: boolean;
+  viewportBottomInset?: number; // 画面下端に固定表示されている要素の高さ（ピクセル）
+  systemScrollRequest?: SystemScrollRequest | null;
   activeNotes?: Set<number>;
   highlightBlackKeys?: boolean;
   visualTranspose?: number;
+  practiceHand?: PracticeHand;
+}
+
+const SYSTEM_SCROLL_MARGIN = 24;
+const LONG_PRESS_MS = 500;
+const TAP_MOVE_TOLERANCE = 10; // これ以上動いたらタップ・長押しではなくドラッグ
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 2.5;
+
+interface TouchPoint {
+  x: number;
+  y: number;
+  startX: number;
+  startY: number;
+}
+
+interface PinchState {
+  startDistance: number;
+  startZoom: number;
+  originX: number;
+  originY: number;
 }
 
 interface ColumnMatchCandidate {
@@ -70,10 +103,22 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   onSelectionChange,
   onTitleReady,
   onLoadingStateChange,
+  onContextsChange,
+  onMeasurePick,
+  onMeasureLongPress,
   selection = null,
+  cursorColumn = null,
+  loopRange = null,
+  measureAccuracy = null,
+  followMeasure = null,
+  autoScroll = true,
+  halfPageTurn = false,
+  viewportBottomInset = 0,
+  systemScrollRequest = null,
   activeNotes = new Set(),
   highlightBlackKeys = true,
-  visualTranspose = 0
+  visualTranspose = 0,
+  practiceHand = 'both'
 }) => {
   const NOTE_SELECTION_THRESHOLD = 20;
   const containerRef = useRef<HTMLDivElement>(null);
@@ -83,6 +128,12 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   const [contexts, setContexts] = useState<MeasureContext[]>([]);
   const [ppu, setPpu] = useState<number>(10.0);
   const [hoveredMeasure, setHoveredMeasure] = useState<MeasureContext | null>(null);
+  const handledScrollRequestRef = useRef<number | null>(null);
+  const touchPointsRef = useRef(new Map<number, TouchPoint>());
+  const pinchRef = useRef<PinchState | null>(null);
+  const longPressTimerRef = useRef<number | null>(null);
+  const suppressClickRef = useRef(false);
+  const [pinchPreview, setPinchPreview] = useState<{ scale: number; originX: number; originY: number } | null>(null);
 
   const getTimestampKeyAtClientPoint = (clientX: number, clientY: number): string | null => {
     const graphicSheet = osmdRef.current?.GraphicSheet as any;
@@ -102,22 +153,121 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
     }
   };
 
-  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+  const getLocalPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  const clearLongPressTimer = () => {
+    if (longPressTimerRef.current !== null) {
+      window.clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
+  const getPinchDistance = () => {
+    const [a, b] = Array.from(touchPointsRef.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
     if (!containerRef.current || contexts.length === 0) return;
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-    
-    // Update hover state
-    const measure = getMeasureAtPoint(x, y, contexts);
-    if (measure !== hoveredMeasure) setHoveredMeasure(measure);
+    if (event.pointerType === 'mouse') return; // マウスは従来どおりボタン押下中の移動とクリックで扱う
+    touchPointsRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY, startX: event.clientX, startY: event.clientY });
+
+    if (touchPointsRef.current.size === 2) {
+      // 2本指になったらピンチズーム。選択と長押しは中止する
+      clearLongPressTimer();
+      const rect = event.currentTarget.getBoundingClientRect();
+      const points = Array.from(touchPointsRef.current.values());
+      pinchRef.current = {
+        startDistance: getPinchDistance(),
+        startZoom: osmdRef.current?.Zoom ?? 1,
+        originX: (points[0].x + points[1].x) / 2 - rect.left,
+        originY: (points[0].y + points[1].y) / 2 - rect.top
+      };
+      suppressClickRef.current = true;
+      return;
+    }
+    if (touchPointsRef.current.size > 2) return;
+
+    const { clientX, clientY } = event;
+    clearLongPressTimer();
+    longPressTimerRef.current = window.setTimeout(() => {
+      longPressTimerRef.current = null;
+      const { x, y } = getLocalPoint(clientX, clientY);
+      const measure = getMeasureAtPoint(x, y, contexts);
+      if (!measure || !onMeasureLongPress) return;
+      suppressClickRef.current = true;
+      onMeasureLongPress(measure, { clientX, clientY });
+    }, LONG_PRESS_MS);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!containerRef.current || contexts.length === 0) return;
+    const { x, y } = getLocalPoint(event.clientX, event.clientY);
+
+    if (event.pointerType === 'mouse') {
+      // Update hover state
+      const measure = getMeasureAtPoint(x, y, contexts);
+      if (measure !== hoveredMeasure) setHoveredMeasure(measure);
+
+      // Execute selection logic if dragging (left button down)
+      if (event.buttons === 1 && onSelectionChange) {
+        updateSelectionAtPoint(x, y, event.clientX, event.clientY, false); // 移動中は重複を避けるため forcePlay = false
+      }
+      return;
+    }
+
+    const point = touchPointsRef.current.get(event.pointerId);
+    if (!point) return;
+    point.x = event.clientX;
+    point.y = event.clientY;
+
+    const pinch = pinchRef.current;
+    if (pinch && touchPointsRef.current.size === 2) {
+      setPinchPreview({ scale: getPinchDistance() / pinch.startDistance, originX: pinch.originX, originY: pinch.originY });
+      return;
+    }
 
-    // Execute selection logic if dragging (left button down)
-    if (event.buttons === 1 && onSelectionChange) {
-      updateSelectionAtPoint(x, y, event.clientX, event.clientY, false); // 移動中は重複を避けるため forcePlay = false
+    // 指を動かしたら長押しではなく列のスクラブとして扱う
+    if (Math.hypot(point.x - point.startX, point.y - point.startY) > TAP_MOVE_TOLERANCE) {
+      clearLongPressTimer();
+      if (!suppressClickRef.current && onSelectionChange && !onMeasurePick) {
+        updateSelectionAtPoint(x, y, event.clientX, event.clientY, false);
+      }
     }
   };
 
+  const handlePointerEnd = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!touchPointsRef.current.delete(event.pointerId)) return;
+    clearLongPressTimer();
+    const pinch = pinchRef.current;
+    if (pinch && touchPointsRef.current.size < 2) {
+      pinchRef.current = null;
+      const scale = pinchPreview?.scale ?? 1;
+      setPinchPreview(null);
+      applyZoom(pinch.startZoom * scale);
+    }
+    // クリック抑止は最後の指が離れた後の click イベントまで保持する
+    if (touchPointsRef.current.size === 0 && suppressClickRef.current) {
+      window.setTimeout(() => {
+        suppressClickRef.current = false;
+      }, 0);
+    }
+  };
+
+  const handleContextMenu = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!containerRef.current || !onMeasureLongPress) return;
+    const { x, y } = getLocalPoint(event.clientX, event.clientY);
+    const measure = getMeasureAtPoint(x, y, contexts);
+    if (!measure) return;
+    // タッチの長押しでもブラウザのメニューではなく小節メニューを出す
+    event.preventDefault();
+    if (touchPointsRef.current.size > 0) return;
+    onMeasureLongPress(measure, { clientX: event.clientX, clientY: event.clientY });
+  };
+
   const handleMouseLeave = () => setHoveredMeasure(null);
 
   const updateSelectionAtPoint = (x: number, y: number, clientX: number, clientY: number, forcePlay: boolean) => {
@@ -155,6 +305,8 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
 
       if (closestColumnKey !== null && minDistance < NOTE_SELECTION_THRESHOLD) {
         relatedMeasures.forEach(m => {
+          // 練習しない手の譜表の音は選択・発音しない
+          if (!isStaffInHand(m.staffId, practiceHand)) return;
           m.noteDetails.forEach(note => {
             if (note.columnKey === closestColumnKey) {
               // Apply visualTranspose so the generated sound matches the visual representation
@@ -188,9 +340,15 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
     event.stopPropagation(); // App 側の onClick (resetSelection) が呼ばれないようにする
     if (!containerRef.current || contexts.length === 0) return;
+    if (suppressClickRef.current) return; // 長押し・ピンチの後のタップは選択に使わない
     const rect = containerRef.current.getBoundingClientRect();
     const x = event.clientX - rect.left;
     const y = event.clientY - rect.top;
+    if (onMeasurePick) {
+      const measure = getMeasureAtPoint(x, y, contexts);
+      if (measure) onMeasurePick(measure);
+      return;
+    }
     updateSelectionAtPoint(x, y, event.clientX, event.clientY, true); // クリック時は常に音を鳴らすため forcePlay = true
   };
 
@@ -285,6 +443,76 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
     return () => resizeObserver.disconnect();
   }, []);
 
+  // ピンチ中は CSS で拡大して見せ、指を離したら OSMD のズームで描き直す
+  const applyZoom = (zoom: number) => {
+    const osmd = osmdRef.current;
+    if (!osmd || !osmd.Sheet || !containerRef.current) return;
+    const nextZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    if (Math.abs(nextZoom - osmd.Zoom) < 0.01) return;
+    osmd.Zoom = nextZoom;
+    osmd.render();
+    const pixelPerUnit = getPixelPerUnit(osmd, containerRef.current);
+    setPpu(pixelPerUnit);
+    setContexts(extractMeasureContexts(osmd, pixelPerUnit));
+  };
+
+  useEffect(() => () => {
+    if (longPressTimerRef.current !== null) window.clearTimeout(longPressTimerRef.current);
+  }, []);
+
+  useEffect(() => {
+    onContextsChange?.(contexts);
+  }, [contexts, onContextsChange]);
+
+  // 現在位置の段（システム）が変わったらページをスクロールする
+  const followSystemId = followMeasure?.systemId ?? null;
+  useEffect(() => {
+    if (!autoScroll || followSystemId === null || !containerRef.current) return;
+    const systemContexts = contexts.filter((ctx) => ctx.systemId === followSystemId);
+    if (systemContexts.length === 0) return;
+
+    const containerTop = containerRef.current.getBoundingClientRect().top + window.scrollY;
+    const systemTop = containerTop + Math.min(...systemContexts.map((ctx) => ctx.y)) - SYSTEM_SCROLL_MARGIN;
+    const systemBottom = containerTop + Math.max(...systemContexts.map((ctx) => ctx.y + ctx.height)) + SYSTEM_SCROLL_MARGIN;
+    const viewTop = window.scrollY;
+    const viewHeight = window.innerHeight - viewportBottomInset;
+    const viewBottom = viewTop + viewHeight;
+
+    let target: number | null = null;
+    if (halfPageTurn) {
+      // 段が画面の下半分に入ったら、その段を上端に送り次の段を先に見せる
+      if (systemTop < viewTop || systemBottom > viewBottom || systemTop > viewTop + viewHeight / 2) target = systemTop;
+    } else if (systemTop < viewTop || systemBottom > viewBottom) {
+      // 見切れたら現在の段を画面の上から1/3付近へ戻す
+      target = systemTop - viewHeight / 3 + (systemBottom - systemTop) / 2;
+    }
+    if (target === null) return;
+    target = Math.max(0, target);
+    if (Math.abs(target - viewTop) < SYSTEM_SCROLL_MARGIN) return;
+    window.scrollTo({ top: target, behavior: 'smooth' });
+  }, [autoScroll, halfPageTurn, followSystemId, contexts, viewportBottomInset]);
+
+  // ショートカットによる段送り：画面上端を基準に前後の段の先頭へスクロールする
+  useEffect(() => {
+    if (!systemScrollRequest || !containerRef.current || contexts.length === 0) return;
+    if (systemScrollRequest.requestId === handledScrollRequestRef.current) return;
+    handledScrollRequestRef.current = systemScrollRequest.requestId;
+    const containerTop = containerRef.current.getBoundingClientRect().top + window.scrollY;
+    const systemTops = new Map<number, number>();
+    contexts.forEach((ctx) => {
+      const top = containerTop + ctx.y - SYSTEM_SCROLL_MARGIN;
+      systemTops.set(ctx.systemId, Math.min(systemTops.get(ctx.systemId) ?? Infinity, top));
+    });
+    const tops = Array.from(systemTops.values()).sort((a, b) => a - b);
+    const viewTop = window.scrollY;
+
+    const target = systemScrollRequest.direction > 0
+      ? tops.find((top) => top > viewTop + 1)
+      : [...tops].reverse().find((top) => top < viewTop - 1);
+    if (target === undefined) return;
+    window.scrollTo({ top: Math.max(0, target), behavior: 'smooth' });
+  }, [systemScrollRequest, contexts]);
+
   // Update note colors
   useEffect(() => {
     if (contexts.length === 0) return;
@@ -303,6 +531,7 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
                            selection.measure.measureNumber === ctx.measureNumber &&
                            selection.measure.systemId === ctx.systemId &&
                            selection.columnKey !== null &&
+                           isStaffInHand(ctx.staffId, practiceHand) &&
                            details.some(d => d.columnKey === selection.columnKey);
 
         // Calculate default color for the group (chord)
@@ -373,7 +602,7 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
         }
       });
     });
-  }, [activeNotes, contexts, selection, highlightBlackKeys, visualTranspose]);
+  }, [activeNotes, contexts, selection, highlightBlackKeys, visualTranspose, practiceHand]);
 
   const matchCandidates = useMemo<ColumnMatchCandidate[]>(() => {
     if (!showMidiMatchLines) return [];
@@ -403,6 +632,7 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
     });
 
     contexts.forEach((ctx) => {
+      if (!isStaffInHand(ctx.staffId, practiceHand)) return;
       ctx.noteDetails.forEach((detail) => {
         const measureKey = `${ctx.systemId}:${ctx.measureNumber}`;
         const key = `${ctx.systemId}:${ctx.measureNumber}:${detail.columnKey}`;
@@ -443,13 +673,54 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
         y2: span.y2
       }];
     });
-  }, [contexts, showMidiMatchLines, visualTranspose]);
+  }, [contexts, showMidiMatchLines, visualTranspose, practiceHand]);
 
   const matchingColumns = useMemo(() => {
     if (!showMidiMatchLines || activeNotes.size === 0) return [];
     return matchCandidates.filter((candidate) => setsEqual(candidate.midiNotes, activeNotes));
   }, [activeNotes, matchCandidates, showMidiMatchLines]);
 
+  // ループ範囲をシステム（段）ごとの矩形にまとめる
+  const loopRects = useMemo(() => {
+    if (!loopRange) return [];
+    const systems = new Map<number, { x1: number; x2: number; y1: number; y2: number }>();
+    contexts.forEach((ctx) => {
+      if (ctx.measureNumber < loopRange.startMeasure || ctx.measureNumber > loopRange.endMeasure) return;
+      const rect = systems.get(ctx.systemId);
+      if (rect) {
+        rect.x1 = Math.min(rect.x1, ctx.x);
+        rect.x2 = Math.max(rect.x2, ctx.x + ctx.width);
+        rect.y1 = Math.min(rect.y1, ctx.y);
+        rect.y2 = Math.max(rect.y2, ctx.y + ctx.height);
+      } else {
+        systems.set(ctx.systemId, { x1: ctx.x, x2: ctx.x + ctx.width, y1: ctx.y, y2: ctx.y + ctx.height });
+      }
+    });
+    return Array.from(systems.entries()).map(([systemId, rect]) => ({ systemId, ...rect }));
+  }, [contexts, loopRange]);
+
+  const accuracyRects = useMemo(() => {
+    if (!measureAccuracy || measureAccuracy.length === 0) return [];
+    const grades = new Map(measureAccuracy.map((measure) => [measure.measureNumber, getMeasureGrade(measure)]));
+    const measures = new Map<string, { measureNumber: number; x: number; width: number; y1: number; y2: number }>();
+    contexts.forEach((ctx) => {
+      if (!grades.has(ctx.measureNumber)) return;
+      const key = `${ctx.systemId}:${ctx.measureNumber}`;
+      const rect = measures.get(key);
+      if (rect) {
+        rect.y1 = Math.min(rect.y1, ctx.y);
+        rect.y2 = Math.max(rect.y2, ctx.y + ctx.height);
+      } else {
+        measures.set(key, { measureNumber: ctx.measureNumber, x: ctx.x, width: ctx.width, y1: ctx.y, y2: ctx.y + ctx.height });
+      }
+    });
+    return Array.from(measures.entries()).map(([key, rect]) => ({
+      key,
+      ...rect,
+      color: MEASURE_GRADE_COLORS[grades.get(rect.measureNumber)!]
+    }));
+  }, [contexts, measureAccuracy]);
+
   const renderLines = useMemo(() => {
     const lines: React.JSX.Element[] = [];
     if (selection !== null) {
@@ -477,6 +748,7 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
     if (showGuideLines && activeNotes.size > 0) {
       contexts.forEach((ctx) => {
         if (ctx.noteDetails.length === 0) return;
+        if (!isStaffInHand(ctx.staffId, practiceHand)) return;
 
         let minLimit = -1, maxLimit = 1000;
         // Compensate limits for visualTranspose
@@ -498,7 +770,7 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
       });
     }
     return lines;
-  }, [activeNotes, contexts, matchingColumns, ppu, showAllLines, selection, showGuideLines, visualTranspose]);
+  }, [activeNotes, contexts, matchingColumns, ppu, showAllLines, selection, showGuideLines, visualTranspose, practiceHand]);
 
   return (
     <div 
@@ -510,16 +782,54 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
         userSelect: 'none',
         WebkitUserSelect: 'none',
         MozUserSelect: 'none',
-        msUserSelect: 'none'
+        msUserSelect: 'none',
+        touchAction: 'pan-y', // 縦スクロールはブラウザに任せ、横方向のドラッグとピンチはこちらで扱う
+        transform: pinchPreview ? `scale(${pinchPreview.scale})` : undefined,
+        transformOrigin: pinchPreview ? `${pinchPreview.originX}px ${pinchPreview.originY}px` : undefined
       }} 
-      onMouseMove={handleMouseMove} 
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
       onMouseLeave={handleMouseLeave} 
+      onContextMenu={handleContextMenu}
       onClick={handleClick}
     >
       <div ref={containerRef} style={{ width: '100%' }} />
       <svg style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', pointerEvents: 'none', overflow: 'visible' }}>
         {hoveredMeasure && <rect x={hoveredMeasure.x} y={hoveredMeasure.y} width={hoveredMeasure.width} height={hoveredMeasure.height} fill="rgba(25, 118, 210, 0.05)" stroke="rgba(25, 118, 210, 0.1)" strokeWidth="1" />} 
+        {loopRects.map((rect) => (
+          <rect
+            key={`loop-${rect.systemId}`}
+            x={rect.x1}
+            y={rect.y1 - ppu}
+            width={rect.x2 - rect.x1}
+            height={rect.y2 - rect.y1 + ppu * 2}
+            fill="rgba(255, 152, 0, 0.08)"
+            stroke="#ff9800"
+            strokeWidth="1.5"
+            strokeDasharray="6 3"
+          />
+        ))}
+        {accuracyRects.map((rect) => (
+          <g key={`accuracy-${rect.key}`}>
+            <rect x={rect.x} y={rect.y1} width={rect.width} height={rect.y2 - rect.y1} fill={rect.color} opacity="0.1" />
+            <rect x={rect.x + 1} y={rect.y1 - ppu * 1.5} width={Math.max(0, rect.width - 2)} height={ppu * 0.6} fill={rect.color} opacity="0.8" rx={ppu * 0.3} />
+          </g>
+        ))}
         {renderLines}
+        {cursorColumn && (
+          <line
+            x1={cursorColumn.x}
+            y1={cursorColumn.y1 - ppu}
+            x2={cursorColumn.x}
+            y2={cursorColumn.y2 + ppu}
+            stroke="#4caf50"
+            strokeWidth="3"
+            strokeLinecap="round"
+            opacity="0.7"
+          />
+        )}
       </svg>
     </div>
   );
@@ -0,0 +1,71 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, List, ListItem, ListItemText, Typography, Tooltip, IconButton, Chip
+} from '@mui/material';
+import RestoreIcon from '@mui/icons-material/Restore';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { ScoreMetadata } from '../types/piano';
+import { formatStorageSize } from '../utils/scoreStorage';
+
+interface ScoreHistoryDialogProps {
+  score: ScoreMetadata | null;
+  onClose: () => void;
+  onRestore: (scoreId: string, versionId: string) => void;
+  onDelete: (scoreId: string, versionId: string) => void;
+}
+
+const ScoreHistoryDialog: React.FC<ScoreHistoryDialogProps> = ({ score, onClose, onRestore, onDelete }) => {
+  const versions = React.useMemo(
+    () => [...(score?.versions ?? [])].sort((a, b) => b.savedAt - a.savedAt),
+    [score]
+  );
+
+  return (
+    <Dialog open={!!score} onClose={onClose} fullWidth maxWidth="xs" onClick={(e) => e.stopPropagation()}>
+      <DialogTitle>History: {score?.name}</DialogTitle>
+      <DialogContent dividers sx={{ p: 0 }}>
+        <List dense>
+          {score && (
+            <ListItem secondaryAction={<Chip size="small" label="Current" color="primary" />}>
+              <ListItemText
+                primary={new Date(score.updatedAt ?? score.timestamp).toLocaleString()}
+                secondary={formatStorageSize(score.size)}
+              />
+            </ListItem>
+          )}
+          {versions.map((version) => (
+            <ListItem
+              key={version.id}
+              secondaryAction={
+                <>
+                  <Tooltip title="Restore This Version">
+                    <IconButton size="small" onClick={() => score && onRestore(score.id, version.id)}>
+                      <RestoreIcon fontSize="inherit" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete This Version">
+                    <IconButton size="small" onClick={() => score && onDelete(score.id, version.id)}>
+                      <DeleteIcon fontSize="inherit" />
+                    </IconButton>
+                  </Tooltip>
+                </>
+              }
+            >
+              <ListItemText primary={new Date(version.savedAt).toLocaleString()} secondary={formatStorageSize(version.size)} />
+            </ListItem>
+          ))}
+        </List>
+        {versions.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ px: 2, pb: 2 }}>
+            No earlier versions. Upload a changed file with the same title and choose Save as New Version to keep one.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScoreHistoryDialog;
@@ -0,0 +1,221 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, InputAdornment, Stack, FormControl, InputLabel,
+  Select, MenuItem, Chip, List, ListItem, ListItemButton, ListItemIcon, ListItemText, IconButton, Tooltip, Typography,
+  ListSubheader, ToggleButton, Box
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import FolderIcon from '@mui/icons-material/Folder';
+import LibraryMusicIcon from '@mui/icons-material/LibraryMusic';
+import HistoryIcon from '@mui/icons-material/History';
+import { ScoreMetadata, ScoreSortKey } from '../types/piano';
+import {
+  filterScores, getLibraryFolders, getLibraryTags, SCORE_SORT_OPTIONS, sortScores, UNFILED_FOLDER
+} from '../utils/scoreLibrary';
+
+const SAMPLE_SCORES = [
+  { id: 'sample', name: 'Sample: Grand Staff' },
+  { id: 'clef-sample', name: 'Sample: Clef Change' }
+];
+
+const ALL_FOLDERS = '__all__';
+
+interface ScoreLibraryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  scoreLibrary: ScoreMetadata[];
+  currentScoreId: string;
+  sortKey: ScoreSortKey;
+  onSortChange: (key: ScoreSortKey) => void;
+  onOpenScore: (id: string) => void;
+  onToggleFavorite: (id: string) => void;
+  onOrganize: (score: ScoreMetadata) => void;
+  onShowHistory: (score: ScoreMetadata) => void;
+  onOpenEditDialog: (e: React.MouseEvent, score: ScoreMetadata) => void;
+  onDeleteScore: (e: React.MouseEvent, id: string) => void;
+}
+
+const ScoreLibraryDialog: React.FC<ScoreLibraryDialogProps> = ({
+  open,
+  onClose,
+  scoreLibrary,
+  currentScoreId,
+  sortKey,
+  onSortChange,
+  onOpenScore,
+  onToggleFavorite,
+  onOrganize,
+  onShowHistory,
+  onOpenEditDialog,
+  onDeleteScore
+}) => {
+  const [query, setQuery] = React.useState('');
+  const [folder, setFolder] = React.useState(ALL_FOLDERS);
+  const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
+  const [favoritesOnly, setFavoritesOnly] = React.useState(false);
+
+  const folders = React.useMemo(() => getLibraryFolders(scoreLibrary), [scoreLibrary]);
+  const tags = React.useMemo(() => getLibraryTags(scoreLibrary), [scoreLibrary]);
+  const visibleScores = React.useMemo(() => sortScores(filterScores(scoreLibrary, {
+    query,
+    folder: folder === ALL_FOLDERS ? null : folder,
+    tags: selectedTags,
+    favoritesOnly
+  }), sortKey), [scoreLibrary, query, folder, selectedTags, favoritesOnly, sortKey]);
+
+  // 絞り込み中でなければサンプルも一覧に出す
+  const isFiltering = query.trim() !== '' || folder !== ALL_FOLDERS || selectedTags.length > 0 || favoritesOnly;
+
+  const handleToggleTag = (tag: string) => {
+    setSelectedTags((prev) => prev.includes(tag) ? prev.filter((item) => item !== tag) : [...prev, tag]);
+  };
+
+  const handleOpen = (id: string) => {
+    onOpenScore(id);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" onClick={(e) => e.stopPropagation()}>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <LibraryMusicIcon /> Score Library
+      </DialogTitle>
+      <DialogContent dividers sx={{ p: 0 }}>
+        <Stack spacing={1.5} sx={{ p: 2, pb: 1 }}>
+          <TextField
+            autoFocus
+            size="small"
+            placeholder="Search by name, composer, folder or tag"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            slotProps={{ input: { startAdornment: <InputAdornment position="start"><SearchIcon fontSize="small" /></InputAdornment> } }}
+          />
+          <Stack direction="row" spacing={1} alignItems="center">
+            <FormControl size="small" sx={{ flex: 1 }}>
+              <InputLabel id="library-folder-label">Folder</InputLabel>
+              <Select labelId="library-folder-label" label="Folder" value={folder} onChange={(e) => setFolder(e.target.value)}>
+                <MenuItem value={ALL_FOLDERS}>All Folders</MenuItem>
+                <MenuItem value={UNFILED_FOLDER}><em>Unfiled</em></MenuItem>
+                {folders.map((name) => <MenuItem key={name} value={name}>{name}</MenuItem>)}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ flex: 1 }}>
+              <InputLabel id="library-sort-label">Sort By</InputLabel>
+              <Select
+                labelId="library-sort-label"
+                label="Sort By"
+                value={sortKey}
+                onChange={(e) => onSortChange(e.target.value as ScoreSortKey)}
+              >
+                {SCORE_SORT_OPTIONS.map((option) => <MenuItem key={option.key} value={option.key}>{option.label}</MenuItem>)}
+              </Select>
+            </FormControl>
+            <Tooltip title="Favorites Only">
+              <ToggleButton size="small" value="favorites" selected={favoritesOnly} onChange={() => setFavoritesOnly((prev) => !prev)}>
+                <StarIcon fontSize="small" color={favoritesOnly ? 'warning' : 'inherit'} />
+              </ToggleButton>
+            </Tooltip>
+          </Stack>
+          {tags.length > 0 && (
+            <Stack direction="row" spacing={0.5} sx={{ flexWrap: 'wrap', rowGap: 0.5 }}>
+              {tags.map((tag) => (
+                <Chip
+                  key={tag}
+                  size="small"
+                  label={tag}
+                  color={selectedTags.includes(tag) ? 'primary' : 'default'}
+                  variant={selectedTags.includes(tag) ? 'filled' : 'outlined'}
+                  onClick={() => handleToggleTag(tag)}
+                />
+              ))}
+            </Stack>
+          )}
+        </Stack>
+
+        <List dense sx={{ maxHeight: 420, overflowY: 'auto' }}>
+          {!isFiltering && (
+            <>
+              <ListSubheader>Samples</ListSubheader>
+              {SAMPLE_SCORES.map((sample) => (
+                <ListItemButton key={sample.id} selected={sample.id === currentScoreId} onClick={() => handleOpen(sample.id)}>
+                  <ListItemIcon sx={{ minWidth: 40 }} />
+                  <ListItemText primary={sample.name} />
+                </ListItemButton>
+              ))}
+              <ListSubheader>Your Scores</ListSubheader>
+            </>
+          )}
+          {visibleScores.map((score) => (
+            <ListItem
+              key={score.id}
+              disablePadding
+              secondaryAction={
+                <Box>
+                  {!!score.versions?.length && (
+                    <Tooltip title="Version History">
+                      <IconButton size="small" onClick={() => onShowHistory(score)}><HistoryIcon fontSize="inherit" /></IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title="Folder & Tags">
+                    <IconButton size="small" onClick={() => onOrganize(score)}><LocalOfferIcon fontSize="inherit" /></IconButton>
+                  </Tooltip>
+                  <IconButton size="small" onClick={(e) => onOpenEditDialog(e, score)}><EditIcon fontSize="inherit" /></IconButton>
+                  <IconButton size="small" onClick={(e) => onDeleteScore(e, score.id)}><DeleteIcon fontSize="inherit" /></IconButton>
+                </Box>
+              }
+            >
+              <ListItemButton selected={score.id === currentScoreId} onClick={() => handleOpen(score.id)} sx={{ pr: score.versions?.length ? 18 : 14 }}>
+                <ListItemIcon sx={{ minWidth: 40 }}>
+                  <IconButton
+                    size="small"
+                    edge="start"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onToggleFavorite(score.id);
+                    }}
+                  >
+                    {score.favorite ? <StarIcon fontSize="small" color="warning" /> : <StarBorderIcon fontSize="small" />}
+                  </IconButton>
+                </ListItemIcon>
+                <ListItemText
+                  primary={score.name}
+                  secondary={
+                    <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap' }}>
+                      {score.composer && <span>{score.composer}</span>}
+                      {!!score.versions?.length && <span>{score.versions.length + 1} versions</span>}
+                      {score.folder && (
+                        <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.25 }}>
+                          <FolderIcon sx={{ fontSize: 14 }} /> {score.folder}
+                        </Box>
+                      )}
+                      {score.tags?.map((tag) => <Chip key={tag} label={tag} size="small" variant="outlined" sx={{ height: 18 }} />)}
+                    </Box>
+                  }
+                  slotProps={{ primary: { noWrap: true }, secondary: { component: 'span' } }}
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+          {visibleScores.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ px: 2, py: 3, textAlign: 'center' }}>
+              {scoreLibrary.length === 0 ? 'No scores yet. Open a MusicXML, MXL or MIDI file to add one.' : 'No scores match the filters.'}
+            </Typography>
+          )}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1, pl: 1 }}>
+          {visibleScores.length} of {scoreLibrary.length} scores
+        </Typography>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScoreLibraryDialog;
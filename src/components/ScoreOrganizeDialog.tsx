@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Autocomplete, Stack
+} from '@mui/material';
+import { ScoreMetadata } from '../types/piano';
+
+interface ScoreOrganizeDialogProps {
+  score: ScoreMetadata | null;
+  folders: string[];
+  tags: string[];
+  onClose: () => void;
+  onSave: (id: string, organization: Pick<ScoreMetadata, 'folder' | 'tags'>) => void;
+}
+
+const ScoreOrganizeDialog: React.FC<ScoreOrganizeDialogProps> = ({
+  score,
+  folders,
+  tags,
+  onClose,
+  onSave
+}) => {
+  const [folder, setFolder] = React.useState('');
+  const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
+
+  React.useEffect(() => {
+    setFolder(score?.folder ?? '');
+    setSelectedTags(score?.tags ?? []);
+  }, [score]);
+
+  const handleSave = () => {
+    if (!score) return;
+    onSave(score.id, { folder, tags: selectedTags });
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!score} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Organize: {score?.name}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Autocomplete
+            freeSolo
+            options={folders}
+            inputValue={folder}
+            onInputChange={(_, value) => setFolder(value)}
+            renderInput={(params) => <TextField {...params} label="Folder" size="small" placeholder="Unfiled" />}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={tags}
+            value={selectedTags}
+            onChange={(_, value) => setSelectedTags(value)}
+            renderInput={(params) => <TextField {...params} label="Tags" size="small" placeholder="Type and press Enter" />}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">Save</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScoreOrganizeDialog;
@@ -0,0 +1,141 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Stack, TextField, List, ListItem, ListItemText, IconButton, Tooltip,
+  Typography, Alert
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import DeleteIcon from '@mui/icons-material/Delete';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import CheckIcon from '@mui/icons-material/Check';
+import { SettingsPreset } from '../types/piano';
+
+interface SettingsPresetsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  presets: SettingsPreset[];
+  activePresetId: string | null;
+  onApply: (preset: SettingsPreset) => void;
+  onSaveCurrent: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (preset: SettingsPreset) => void;
+  onImport: (file: File) => Promise<SettingsPreset>;
+}
+
+const SettingsPresetsDialog: React.FC<SettingsPresetsDialogProps> = ({
+  open,
+  onClose,
+  presets,
+  activePresetId,
+  onApply,
+  onSaveCurrent,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [name, setName] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleClose = () => {
+    setError(null);
+    setMessage(null);
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSaveCurrent(name);
+    setMessage(`Saved the current settings as "${name.trim()}".`);
+    setError(null);
+    setName('');
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const preset = await onImport(file);
+      setMessage(`Imported "${preset.name}".`);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not import the preset.');
+      setMessage(null);
+    }
+  };
+
+  const handleDelete = (preset: SettingsPreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    onDelete(preset.id);
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs" onClick={(e) => e.stopPropagation()}>
+      <DialogTitle>Settings Presets</DialogTitle>
+      <DialogContent dividers sx={{ p: 0 }}>
+        <List dense>
+          {presets.map((preset) => (
+            <ListItem
+              key={preset.id}
+              secondaryAction={
+                <>
+                  <Tooltip title="Export as JSON">
+                    <IconButton size="small" onClick={() => onExport(preset)}><DownloadIcon fontSize="inherit" /></IconButton>
+                  </Tooltip>
+                  <IconButton size="small" onClick={() => handleDelete(preset)}><DeleteIcon fontSize="inherit" /></IconButton>
+                </>
+              }
+            >
+              <ListItemText
+                primary={preset.name}
+                secondary={preset.id === activePresetId ? 'Active' : `${Object.keys(preset.settings).length} settings`}
+              />
+              <Button
+                size="small"
+                sx={{ mr: 6 }}
+                startIcon={preset.id === activePresetId ? <CheckIcon /> : undefined}
+                disabled={preset.id === activePresetId}
+                onClick={() => onApply(preset)}
+              >
+                Apply
+              </Button>
+            </ListItem>
+          ))}
+        </List>
+        {presets.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ px: 2, py: 2 }}>
+            No presets yet. Save the current settings under a name such as &quot;Teaching&quot; or &quot;Performance&quot;.
+          </Typography>
+        )}
+        <Stack spacing={1.5} sx={{ p: 2 }}>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              size="small"
+              fullWidth
+              label="Preset Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            />
+            <Button variant="contained" onClick={handleSave} disabled={!name.trim()}>Save</Button>
+          </Stack>
+          <Typography variant="caption" color="text.secondary">
+            Saves the current global settings. Keyboard shortcuts, the MIDI output device and settings pinned to a score are not included.
+          </Typography>
+          {error && <Alert severity="error">{error}</Alert>}
+          {message && <Alert severity="success">{message}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()} sx={{ mr: 'auto' }}>
+          Import JSON
+        </Button>
+        <input ref={fileInputRef} type="file" hidden accept=".json,application/json" onChange={handleFileSelect} />
+        <Button onClick={handleClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SettingsPresetsDialog;
@@ -0,0 +1,131 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography, Box, Slider, Stack,
+  ToggleButtonGroup, ToggleButton, Chip
+} from '@mui/material';
+import { LoopRange, TempoLadderConfig, TempoTrainerProgress } from '../types/piano';
+
+interface TempoTrainerDialogProps {
+  open: boolean;
+  onClose: () => void;
+  loopRange: LoopRange | null;
+  config: TempoLadderConfig;
+  progress: TempoTrainerProgress | null; // 現在のループ範囲の進捗のみ
+  markedTempo: number;
+  onConfigChange: (config: TempoLadderConfig) => void;
+  onStart: (fromStart: boolean) => void;
+}
+
+const TempoTrainerDialog: React.FC<TempoTrainerDialogProps> = ({
+  open,
+  onClose,
+  loopRange,
+  config,
+  progress,
+  markedTempo,
+  onConfigChange,
+  onStart
+}) => {
+  const [localConfig, setLocalConfig] = React.useState(config);
+
+  React.useEffect(() => {
+    setLocalConfig(config);
+  }, [config]);
+
+  const handleSliderChange = (key: keyof TempoLadderConfig) => (_: Event, value: number | number[]) => {
+    setLocalConfig((prev) => ({ ...prev, [key]: value as number }));
+  };
+
+  const handleSliderCommit = (key: keyof TempoLadderConfig) => (_: Event | React.SyntheticEvent, value: number | number[]) => {
+    const next = { ...localConfig, [key]: value as number };
+    // 目標テンポは開始テンポを下回らないようにする
+    if (key === 'startPercent' && next.targetPercent < next.startPercent) next.targetPercent = next.startPercent;
+    if (key === 'targetPercent' && next.startPercent > next.targetPercent) next.startPercent = next.targetPercent;
+    onConfigChange(next);
+  };
+
+  const toBpm = (percent: number) => Math.round((markedTempo * percent) / 100);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Tempo Ladder{loopRange ? `: m.${loopRange.startMeasure}–${loopRange.endMeasure}` : ''}</DialogTitle>
+      <DialogContent dividers>
+        {!loopRange ? (
+          <Typography variant="body2" color="text.secondary">Set an A–B loop to choose the measures to train.</Typography>
+        ) : (
+          <Stack spacing={2}>
+            <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap', rowGap: 1 }}>
+              <Chip size="small" variant="outlined" label={`Marked ♩=${Math.round(markedTempo)}`} />
+              {progress && <Chip size="small" variant="outlined" label={`Next ${progress.currentPercent}% (♩=${toBpm(progress.currentPercent)})`} />}
+              {progress?.bestPercent != null && (
+                <Chip size="small" color="success" variant="outlined" label={`Best ${progress.bestPercent}% (♩=${progress.bestTempo})`} />
+              )}
+            </Stack>
+
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Start Tempo: {localConfig.startPercent}% (♩={toBpm(localConfig.startPercent)})
+              </Typography>
+              <Slider
+                size="small" value={localConfig.startPercent}
+                onChange={handleSliderChange('startPercent')}
+                onChangeCommitted={handleSliderCommit('startPercent')}
+                min={20} max={150} step={5}
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Target Tempo: {localConfig.targetPercent}% (♩={toBpm(localConfig.targetPercent)})
+              </Typography>
+              <Slider
+                size="small" value={localConfig.targetPercent}
+                onChange={handleSliderChange('targetPercent')}
+                onChangeCommitted={handleSliderCommit('targetPercent')}
+                min={20} max={150} step={5}
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">Step per Clean Repetition: +{localConfig.stepPercent}%</Typography>
+              <Slider
+                size="small" value={localConfig.stepPercent}
+                onChange={handleSliderChange('stepPercent')}
+                onChangeCommitted={handleSliderCommit('stepPercent')}
+                min={1} max={20} step={1}
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">Clean When Accuracy ≥ {Math.round(localConfig.cleanAccuracy * 100)}%</Typography>
+              <Slider
+                size="small" value={localConfig.cleanAccuracy}
+                onChange={handleSliderChange('cleanAccuracy')}
+                onChangeCommitted={handleSliderCommit('cleanAccuracy')}
+                min={0.5} max={1} step={0.05}
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>After a Failed Repetition</Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={config.onFailure}
+                onChange={(_, value: TempoLadderConfig['onFailure'] | null) => value && onConfigChange({ ...config, onFailure: value })}
+              >
+                <ToggleButton value="step-back" sx={{ px: 1.5 }}>Step Back</ToggleButton>
+                <ToggleButton value="stop" sx={{ px: 1.5 }}>Stop</ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button onClick={() => onStart(true)} disabled={!loopRange}>Start Over</Button>
+        <Button variant="contained" onClick={() => onStart(false)} disabled={!loopRange}>
+          {progress ? 'Resume' : 'Start'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TempoTrainerDialog;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography } from '@mui/material';
+import { UploadConflict, UploadConflictAction } from '../hooks/useScoreLibrary';
+import { formatStorageSize } from '../utils/scoreStorage';
+
+interface UploadConflictDialogProps {
+  conflict: UploadConflict | null;
+  onResolve: (action: UploadConflictAction | null) => void;
+}
+
+const UploadConflictDialog: React.FC<UploadConflictDialogProps> = ({ conflict, onResolve }) => {
+  const existing = conflict?.existing;
+
+  return (
+    <Dialog open={!!conflict} onClose={() => onResolve(null)} fullWidth maxWidth="xs">
+      <DialogTitle>Score Already in Library</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" gutterBottom>
+          <strong>{conflict?.fileName}</strong> has the same title as <strong>{existing?.name}</strong> but different contents.
+        </Typography>
+        {existing && (
+          <Typography variant="caption" color="text.secondary" display="block">
+            Library copy: {new Date(existing.updatedAt ?? existing.timestamp).toLocaleString()}, {formatStorageSize(existing.size)}
+            {existing.versions && existing.versions.length > 0 ? `, ${existing.versions.length} earlier versions` : ''}
+          </Typography>
+        )}
+        <Typography variant="body2" sx={{ mt: 2 }}>
+          Save as new version keeps the library copy in the score&apos;s history so it can be restored later.
+        </Typography>
+      </DialogContent>
+      <DialogActions sx={{ flexWrap: 'wrap', gap: 1 }}>
+        <Button onClick={() => onResolve(null)}>Cancel</Button>
+        <Button onClick={() => onResolve('keep-both')}>Keep Both</Button>
+        <Button color="warning" onClick={() => onResolve('replace')}>Replace</Button>
+        <Button variant="contained" onClick={() => onResolve('new-version')}>Save as New Version</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default UploadConflictDialog;
@@ -0,0 +1,113 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { isEditableTarget } from '../utils/keyboardShortcuts';
+
+export interface RawMidiMessage {
+  data: number[];
+  timeStamp: number;
+}
+
+// 下段の白鍵と上段の黒鍵をピアノの並びに合わせる（KeyboardEvent.code 基準なので配列に依らない）
+const NOTE_KEY_OFFSETS: Record<string, number> = {
+  KeyA: 0, KeyW: 1, KeyS: 2, KeyE: 3, KeyD: 4, KeyF: 5, KeyT: 6, KeyG: 7, KeyY: 8, KeyH: 9, KeyU: 10, KeyJ: 11,
+  KeyK: 12, KeyO: 13, KeyL: 14, KeyP: 15, Semicolon: 16, Quote: 17
+};
+const OCTAVE_DOWN_KEY = 'KeyZ';
+const OCTAVE_UP_KEY = 'KeyX';
+const VELOCITY_DOWN_KEY = 'KeyC';
+const VELOCITY_UP_KEY = 'KeyV';
+
+const BASE_NOTE = 60; // C4
+const MIN_OCTAVE_SHIFT = -4;
+const MAX_OCTAVE_SHIFT = 4;
+const VELOCITY_STEP = 20;
+const DEFAULT_VELOCITY = 100;
+
+/**
+ * Hook that turns the computer keyboard into a virtual MIDI keyboard.
+ * Key presses are converted into raw MIDI messages so they travel the same path as a hardware input.
+ */
+export const useComputerKeyboard = (onMessage: (message: RawMidiMessage) => void, enabled: boolean) => {
+  const [octaveShift, setOctaveShift] = useState(0);
+  const [velocity, setVelocity] = useState(DEFAULT_VELOCITY);
+
+  const onMessageRef = useRef(onMessage);
+  const octaveShiftRef = useRef(octaveShift);
+  const velocityRef = useRef(velocity);
+  const heldNotesRef = useRef(new Map<string, number>()); // code -> 押したときの MIDI ノート番号
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    octaveShiftRef.current = octaveShift;
+  }, [octaveShift]);
+
+  useEffect(() => {
+    velocityRef.current = velocity;
+  }, [velocity]);
+
+  const releaseAll = useCallback(() => {
+    heldNotesRef.current.forEach((midi) => {
+      onMessageRef.current({ data: [0x80, midi, 0], timeStamp: performance.now() });
+    });
+    heldNotesRef.current.clear();
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // ショートカットより先に受け取り、音に使うキーはショートカットとして扱わせない
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return;
+      const code = event.code;
+
+      if (code === OCTAVE_DOWN_KEY || code === OCTAVE_UP_KEY) {
+        event.preventDefault();
+        if (event.repeat) return;
+        const delta = code === OCTAVE_UP_KEY ? 1 : -1;
+        setOctaveShift((prev) => Math.min(MAX_OCTAVE_SHIFT, Math.max(MIN_OCTAVE_SHIFT, prev + delta)));
+        return;
+      }
+      if (code === VELOCITY_DOWN_KEY || code === VELOCITY_UP_KEY) {
+        event.preventDefault();
+        const delta = code === VELOCITY_UP_KEY ? VELOCITY_STEP : -VELOCITY_STEP;
+        setVelocity((prev) => Math.min(127, Math.max(1, prev + delta)));
+        return;
+      }
+
+      const offset = NOTE_KEY_OFFSETS[code];
+      if (offset === undefined) return;
+      event.preventDefault();
+      if (event.repeat || heldNotesRef.current.has(code)) return;
+      const midi = BASE_NOTE + octaveShiftRef.current * 12 + offset;
+      if (midi < 0 || midi > 127) return;
+      heldNotesRef.current.set(code, midi);
+      onMessageRef.current({ data: [0x90, midi, velocityRef.current], timeStamp: performance.now() });
+    };
+
+    // オクターブを切り替えても、押したときの音を離す
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const midi = heldNotesRef.current.get(event.code);
+      if (midi === undefined) return;
+      event.preventDefault();
+      heldNotesRef.current.delete(event.code);
+      onMessageRef.current({ data: [0x80, midi, 0], timeStamp: performance.now() });
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('keyup', handleKeyUp, true);
+    window.addEventListener('blur', releaseAll);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('keyup', handleKeyUp, true);
+      window.removeEventListener('blur', releaseAll);
+      releaseAll();
+    };
+  }, [enabled, releaseAll]);
+
+  return {
+    baseNote: BASE_NOTE + octaveShift * 12,
+    velocity
+  };
+};
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { KeyBindings, ShortcutAction } from '../types/piano';
+import { findShortcutAction, getKeyCombo, isEditableTarget, REPEATABLE_SHORTCUT_ACTIONS } from '../utils/keyboardShortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/**
+ * Hook that dispatches the configured keyboard shortcuts (including page-turner pedals,
+ * which send ordinary key events) to the given handlers.
+ */
+export const useKeyboardShortcuts = (keyBindings: KeyBindings, handlers: ShortcutHandlers, enabled: boolean = true) => {
+  const bindingsRef = useRef(keyBindings);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    bindingsRef.current = keyBindings;
+  }, [keyBindings]);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing || isEditableTarget(event.target)) return;
+      const combo = getKeyCombo(event);
+      if (!combo) return;
+      const action = findShortcutAction(bindingsRef.current, combo);
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!action || !handler) return;
+
+      // フォーカス中のボタンの Space / Enter やページのスクロールと二重に動かないようにする
+      event.preventDefault();
+      if (event.repeat && !REPEATABLE_SHORTCUT_ACTIONS.includes(action)) return;
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,207 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { MeasureContext, TimeSignature } from '../types/piano';
+import { MetronomeClickLevel } from './usePianoSound';
+
+interface MetronomeBar {
+  measureNumber: number;
+  beats: number;
+  beatLength: number; // 全音符単位
+  timeSignature: TimeSignature;
+  tempo: number;
+}
+
+export interface MetronomePosition {
+  measureNumber: number | null; // カウントイン中は null
+  beat: number; // 1始まり
+  beats: number;
+  timeSignature: TimeSignature;
+  tempo: number;
+}
+
+export interface MetronomeRunOptions {
+  endMeasureNumber?: number; // 指定時はこの小節を刻み終えたら止まる
+  tempoScale?: number; // 楽譜のテンポ指示に対する倍率（テンポトレーナー用）
+  countInBars?: number;
+  onComplete?: () => void;
+}
+
+interface MetronomeOptions {
+  tempo: number; // followScoreTempo がオフのときのテンポ
+  followScoreTempo: boolean;
+  subdivision: number;
+  countInBars: number;
+  startAudio: () => Promise<void>;
+  getAudioTime: () => number | null;
+  scheduleClick: (level: MetronomeClickLevel, time: number) => void;
+}
+
+const TICK_MS = 25;
+const SCHEDULE_AHEAD_SEC = 0.1;
+const START_DELAY_SEC = 0.05;
+
+// 拍子の分母を1拍とし、弱起などの不完全小節は実際の長さから拍数を求める
+const buildMetronomeBars = (contexts: MeasureContext[]): MetronomeBar[] => {
+  const bars = new Map<number, MeasureContext>();
+  contexts.forEach((ctx) => {
+    const existing = bars.get(ctx.measureNumber);
+    if (!existing || ctx.staffId < existing.staffId) bars.set(ctx.measureNumber, ctx);
+  });
+
+  return Array.from(bars.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((ctx) => {
+      const beatLength = 1 / ctx.timeSignature.denominator;
+      return {
+        measureNumber: ctx.measureNumber,
+        beats: Math.max(1, Math.round(ctx.duration / beatLength)),
+        beatLength,
+        timeSignature: ctx.timeSignature,
+        tempo: ctx.tempo
+      };
+    });
+};
+
+/**
+ * Hook for a metronome that follows the meter (and optionally the tempo markings) of the score.
+ * Clicks are scheduled slightly ahead on the AudioContext clock so that timer jitter does not affect the beat.
+ */
+export const useMetronome = (contexts: MeasureContext[], options: MetronomeOptions) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [position, setPosition] = useState<MetronomePosition | null>(null);
+
+  const bars = useMemo(() => buildMetronomeBars(contexts), [contexts]);
+  const barsRef = useRef(bars);
+  const optionsRef = useRef(options);
+  const timerRef = useRef<number | null>(null);
+  const displayTimersRef = useRef<number[]>([]);
+  const cursorRef = useRef({ barIndex: 0, beat: 0, subdivision: 0, countInRemaining: 0, nextTime: 0 });
+  const runOptionsRef = useRef<MetronomeRunOptions>({});
+
+  useEffect(() => {
+    barsRef.current = bars;
+  }, [bars]);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  const clearTimers = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    displayTimersRef.current.forEach((id) => window.clearTimeout(id));
+    displayTimersRef.current = [];
+  }, []);
+
+  const finish = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    const onComplete = runOptionsRef.current.onComplete;
+    const now = optionsRef.current.getAudioTime() ?? 0;
+    // 最後のクリックの拍が鳴り終わる時刻に完了を通知する
+    const timerId = window.setTimeout(() => {
+      displayTimersRef.current = displayTimersRef.current.filter((id) => id !== timerId);
+      setIsRunning(false);
+      setPosition(null);
+      onComplete?.();
+    }, Math.max(0, (cursorRef.current.nextTime - now) * 1000));
+    displayTimersRef.current.push(timerId);
+  }, []);
+
+  const scheduleAhead = useCallback(() => {
+    const current = optionsRef.current;
+    const run = runOptionsRef.current;
+    const now = current.getAudioTime();
+    if (now === null) return;
+
+    const cursor = cursorRef.current;
+    while (cursor.nextTime < now + SCHEDULE_AHEAD_SEC) {
+      const bar = barsRef.current[cursor.barIndex];
+      if (!bar) return;
+
+      const isCountIn = cursor.countInRemaining > 0;
+      const beats = isCountIn ? bar.timeSignature.numerator : bar.beats; // カウントインは弱起でも1小節分
+      const tempo = run.tempoScale !== undefined
+        ? bar.tempo * run.tempoScale
+        : current.followScoreTempo ? bar.tempo : current.tempo;
+      const subdivision = Math.max(1, current.subdivision);
+      const clickSec = (bar.beatLength * 240) / tempo / subdivision;
+
+      let level: MetronomeClickLevel = 'subdivision';
+      if (cursor.subdivision === 0) level = cursor.beat === 0 ? 'downbeat' : 'beat';
+      current.scheduleClick(level, cursor.nextTime);
+
+      if (cursor.subdivision === 0) {
+        const nextPosition: MetronomePosition = {
+          measureNumber: isCountIn ? null : bar.measureNumber,
+          beat: cursor.beat + 1,
+          beats,
+          timeSignature: bar.timeSignature,
+          tempo
+        };
+        const timerId = window.setTimeout(() => {
+          displayTimersRef.current = displayTimersRef.current.filter((id) => id !== timerId);
+          setPosition(nextPosition);
+        }, Math.max(0, (cursor.nextTime - now) * 1000));
+        displayTimersRef.current.push(timerId);
+      }
+
+      cursor.nextTime += clickSec;
+      cursor.subdivision++;
+      if (cursor.subdivision < subdivision) continue;
+      cursor.subdivision = 0;
+      cursor.beat++;
+      if (cursor.beat < beats) continue;
+      cursor.beat = 0;
+
+      if (isCountIn) {
+        cursor.countInRemaining--;
+      } else if (run.endMeasureNumber !== undefined && bar.measureNumber === run.endMeasureNumber) {
+        finish();
+        return;
+      } else if (cursor.barIndex < barsRef.current.length - 1) {
+        // 最後の小節に達したら、その拍子のまま刻み続ける
+        cursor.barIndex++;
+      }
+    }
+  }, [finish]);
+
+  const stop = useCallback(() => {
+    clearTimers();
+    setIsRunning(false);
+    setPosition(null);
+  }, [clearTimers]);
+
+  const start = useCallback(async (fromMeasureNumber?: number, runOptions: MetronomeRunOptions = {}) => {
+    clearTimers();
+    runOptionsRef.current = runOptions;
+    if (barsRef.current.length === 0) return;
+    await optionsRef.current.startAudio();
+    const now = optionsRef.current.getAudioTime();
+    if (now === null) return;
+
+    const barIndex = Math.max(0, barsRef.current.findIndex((bar) => bar.measureNumber === fromMeasureNumber));
+    cursorRef.current = {
+      barIndex,
+      beat: 0,
+      subdivision: 0,
+      countInRemaining: Math.max(0, runOptions.countInBars ?? optionsRef.current.countInBars),
+      nextTime: now + START_DELAY_SEC
+    };
+    setIsRunning(true);
+    scheduleAhead();
+    timerRef.current = window.setInterval(scheduleAhead, TICK_MS);
+  }, [clearTimers, scheduleAhead]);
+
+  useEffect(() => clearTimers, [clearTimers]);
+
+  return {
+    isRunning,
+    position,
+    start,
+    stop
+  };
+};
@@ -1,26 +1,30 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { MidiEventPayload } from '../types/piano';
+import { useComputerKeyboard } from './useComputerKeyboard';
 
 export interface MidiDevice {
   id: string;
   name: string;
   manufacturer?: string;
+  isVirtual?: boolean;
 }
 
-interface MidiEventPayload {
-  type: 'note-on' | 'note-off' | 'sustain';
-  payload: { midi?: number; velocity?: number; active?: boolean };
-}
+export const COMPUTER_KEYBOARD_DEVICE: MidiDevice = {
+  id: 'computer-keyboard',
+  name: 'Computer Keyboard',
+  isVirtual: true
+};
 
 /**
  * Hook to manage currently pressed MIDI note numbers and MIDI devices
- * Receives MIDI events from the Main Thread (Web MIDI API)
+ * Receives MIDI events from the Main Thread (Web MIDI API) and from the computer keyboard as a virtual device
  */
 export const useMidi = (
   onMidiEvent?: (event: MidiEventPayload) => void,
   ensureAudioStarted?: () => Promise<void>
 ) => {
   const [activeNotes, setActiveNotes] = useState<Set<number>>(new Set());
-  const [availableDevices, setAvailableDevices] = useState<MidiDevice[]>([]);
+  const [availableDevices, setAvailableDevices] = useState<MidiDevice[]>([COMPUTER_KEYBOARD_DEVICE]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('all');
 
   const midiAccessRef = useRef<any>(null); // Use any for MIDIAccess to avoid type issues
@@ -29,6 +33,7 @@ export const useMidi = (
   const handleMidiMessage = useCallback((event: any) => {
     if (!event.data) return;
     const [command, data1, data2] = event.data;
+    const timestamp: number = event.timeStamp ?? performance.now();
 
     // Try to unlock/resume audio as early as possible on MIDI activity.
     if (ensureAudioStarted) {
@@ -39,15 +44,15 @@ export const useMidi = (
     if (onMidiEvent) {
       // Note On
       if (command >= 0x90 && command <= 0x9F && data2 > 0) {
-        onMidiEvent({ type: 'note-on', payload: { midi: data1, velocity: data2 / 127 } });
+        onMidiEvent({ type: 'note-on', payload: { midi: data1, velocity: data2 / 127 }, timestamp });
       } 
       // Note Off
       else if ((command >= 0x80 && command <= 0x8F) || (command >= 0x90 && command <= 0x9F && data2 === 0)) {
-        onMidiEvent({ type: 'note-off', payload: { midi: data1 } });
+        onMidiEvent({ type: 'note-off', payload: { midi: data1 }, timestamp });
       }
       // Sustain Pedal (CC 64)
       else if (command === 0xB0 && data1 === 64) {
-        onMidiEvent({ type: 'sustain', payload: { active: data2 >= 64 } });
+        onMidiEvent({ type: 'sustain', payload: { active: data2 >= 64 }, timestamp });
       }
     }
 
@@ -86,7 +91,7 @@ export const useMidi = (
         manufacturer: input.manufacturer
       });
     }
-    setAvailableDevices(devices);
+    setAvailableDevices([...devices, COMPUTER_KEYBOARD_DEVICE]);
 
     // Re-attach listeners based on selection
     for (const input of midiAccessRef.current.inputs.values()) {
@@ -135,9 +140,19 @@ export const useMidi = (
     }
   }, [selectedDeviceId, refreshDevices]);
 
+  // 画面上の鍵盤など、ハードウェア以外からの MIDI メッセージを同じ処理に流す
+  const injectMessage = useCallback((data: number[]) => {
+    handleMidiMessage({ data, timeStamp: performance.now() });
+  }, [handleMidiMessage]);
+
+  // 仮想デバイス：選択中のみ QWERTY キーを MIDI メッセージとして同じ処理に流す
+  const computerKeyboard = useComputerKeyboard(handleMidiMessage, selectedDeviceId === COMPUTER_KEYBOARD_DEVICE.id);
+
   return {
     activeNotes,
     availableDevices,
+    computerKeyboard,
+    injectMessage,
     selectedDeviceId,
     selectDevice: setSelectedDeviceId
   };
@@ -0,0 +1,70 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { MidiDevice } from './useMidi';
+
+export type MidiOutputSender = (data: number[]) => void;
+
+const ALL_NOTES_OFF = 123;
+const SUSTAIN = 64;
+
+/**
+ * Lists Web MIDI outputs and returns a sender for the selected one.
+ * The sender is undefined while no output is selected or the selected device is disconnected.
+ */
+export const useMidiOutput = (outputId: string) => {
+  const [availableOutputs, setAvailableOutputs] = useState<MidiDevice[]>([]);
+  const midiAccessRef = useRef<MIDIAccess | null>(null);
+
+  useEffect(() => {
+    if (!navigator.requestMIDIAccess) return;
+
+    let access: MIDIAccess | null = null;
+    const refreshOutputs = () => {
+      if (!access) return;
+      const outputs: MidiDevice[] = [];
+      access.outputs.forEach((output: MIDIOutput) => {
+        outputs.push({ id: output.id, name: output.name ?? output.id, manufacturer: output.manufacturer ?? undefined });
+      });
+      setAvailableOutputs(outputs);
+    };
+
+    navigator.requestMIDIAccess().then((result) => {
+      access = result;
+      midiAccessRef.current = result;
+      refreshOutputs();
+      // 入力側の useMidi も onstatechange を使うため、こちらはリスナーを追加する
+      result.addEventListener('statechange', refreshOutputs);
+    }).catch(err => {
+      console.error('Failed to get MIDI access for output', err);
+    });
+
+    return () => {
+      access?.removeEventListener('statechange', refreshOutputs);
+      midiAccessRef.current = null;
+    };
+  }, []);
+
+  const isOutputAvailable = availableOutputs.some((output) => output.id === outputId);
+
+  const send = useMemo<MidiOutputSender | undefined>(() => {
+    if (!outputId || !isOutputAvailable) return undefined;
+    return (data: number[]) => {
+      try {
+        midiAccessRef.current?.outputs.get(outputId)?.send(data);
+      } catch (error) {
+        console.warn('Failed to send MIDI message:', error);
+      }
+    };
+  }, [outputId, isOutputAvailable]);
+
+  // 出力を切り替えたり外したりしたら、前の機器で鳴り続けている音とペダルを止める
+  useEffect(() => {
+    return () => {
+      for (let channel = 0; channel < 16; channel++) {
+        send?.([0xB0 | channel, SUSTAIN, 0]);
+        send?.([0xB0 | channel, ALL_NOTES_OFF, 0]);
+      }
+    };
+  }, [send]);
+
+  return { availableOutputs, send };
+};
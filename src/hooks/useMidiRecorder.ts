@@ -0,0 +1,103 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { MidiEventPayload, MidiRecording, RecordedMidiEvent } from '../types/piano';
+import { deleteRecording, listRecordings, saveRecording } from '../utils/recordingStorage';
+
+/**
+ * Hook to record live MIDI input and keep the recorded takes of the current score.
+ * Takes are persisted in IndexedDB per score id.
+ */
+export const useMidiRecorder = (scoreId: string, tempo: number) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [takes, setTakes] = useState<MidiRecording[]>([]);
+
+  const isRecordingRef = useRef(false);
+  const startTimeRef = useRef(0);
+  const eventsRef = useRef<RecordedMidiEvent[]>([]);
+
+  const refreshTakes = useCallback(async () => {
+    try {
+      setTakes(await listRecordings(scoreId));
+    } catch (error) {
+      console.error('Failed to read recordings from IndexedDB:', error);
+      setTakes([]);
+    }
+  }, [scoreId]);
+
+  useEffect(() => {
+    void refreshTakes();
+  }, [refreshTakes]);
+
+  const capture = useCallback((event: MidiEventPayload) => {
+    if (!isRecordingRef.current) return;
+    const timestamp = event.timestamp ?? performance.now();
+    eventsRef.current.push({
+      time: Math.max(0, timestamp - startTimeRef.current),
+      type: event.type,
+      midi: event.payload.midi,
+      velocity: event.payload.velocity !== undefined ? Math.round(event.payload.velocity * 127) : undefined,
+      active: event.payload.active
+    });
+  }, []);
+
+  const start = useCallback(() => {
+    eventsRef.current = [];
+    startTimeRef.current = performance.now();
+    isRecordingRef.current = true;
+    setIsRecording(true);
+  }, []);
+
+  const stop = useCallback(async (): Promise<MidiRecording | null> => {
+    if (!isRecordingRef.current) return null;
+    isRecordingRef.current = false;
+    setIsRecording(false);
+
+    const events = eventsRef.current;
+    eventsRef.current = [];
+    if (!events.some((event) => event.type === 'note-on')) return null;
+
+    const recording: MidiRecording = {
+      id: `take-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      scoreId,
+      name: `Take ${takes.length + 1}`,
+      createdAt: Date.now(),
+      durationMs: performance.now() - startTimeRef.current,
+      tempo,
+      events
+    };
+
+    try {
+      await saveRecording(recording);
+      await refreshTakes();
+    } catch (error) {
+      console.error('Failed to store recording:', error);
+      alert('Failed to save the recording.');
+    }
+    return recording;
+  }, [scoreId, tempo, takes.length, refreshTakes]);
+
+  const deleteTake = useCallback(async (id: string) => {
+    try {
+      await deleteRecording(id);
+      await refreshTakes();
+    } catch (error) {
+      console.error('Failed to delete recording:', error);
+      alert('Failed to delete the recording.');
+    }
+  }, [refreshTakes]);
+
+  // 楽譜を切り替えたら録音中のテイクは破棄する
+  useEffect(() => {
+    isRecordingRef.current = false;
+    eventsRef.current = [];
+    setIsRecording(false);
+  }, [scoreId]);
+
+  return {
+    isRecording,
+    takes,
+    capture,
+    start,
+    stop,
+    deleteTake
+  };
+};
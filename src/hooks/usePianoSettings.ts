@@ -1,6 +1,8 @@
-import { useState, useEffect } from 'react';
-import { PianoSettings, SoundType } from '../types/piano';
+import { useState, useEffect, useMemo } from 'react';
+import { PianoSettings, ScoreSettingKey, ScoreSettingsProfile, SoundType } from '../types/piano';
 import { DEFAULT_SOUND_FONT_ID } from '../data/soundFonts';
+import { DEFAULT_KEY_BINDINGS } from '../utils/keyboardShortcuts';
+import { loadSettings, sanitizeSetting, serializeSettings, SettingsLoadResult, SettingsRepair } from '../utils/settingsSchema';
 
 const DEFAULT_SETTINGS: PianoSettings = {
   showAllLines: false,
@@ -17,39 +19,130 @@ const DEFAULT_SETTINGS: PianoSettings = {
   visualTranspose: 0,
   sustainEnabled: false,
   velocitySensitivity: 1,
-  highlightBlackKeys: true
+  highlightBlackKeys: true,
+  practiceHand: 'both',
+  metronomeSound: 'percussion',
+  metronomeSubdivision: 1,
+  metronomeCountInBars: 1,
+  metronomeFollowScoreTempo: true,
+  autoScroll: true,
+  halfPageTurn: false,
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  librarySort: 'lastOpened',
+  midiOutputId: '',
+  midiThru: false,
+  internalSynthEnabled: true,
+  keyboardMode: 'single',
+  splitPoint: 60,
+  primaryVolume: 0.8,
+  secondaryGmProgram: 32,
+  secondaryTranspose: 0,
+  secondaryVolume: 0.8
 };
 
-export const usePianoSettings = () => {
-  const [settings, setSettings] = useState<PianoSettings>(() => {
-    const saved = localStorage.getItem('piano_app_settings');
-    if (saved) {
-      try {
-        return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
-      } catch (e) {
-        return DEFAULT_SETTINGS;
-      }
-    }
-    return DEFAULT_SETTINGS;
+const SETTINGS_KEY = 'piano_app_settings';
+
+// 保存された設定を移行・検証する。読めなければ既定値に戻したことを報告する
+const loadSavedSettings = (): SettingsLoadResult => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return { settings: DEFAULT_SETTINGS, repairs: [], migratedFrom: null };
+  try {
+    return loadSettings(JSON.parse(saved), DEFAULT_SETTINGS);
+  } catch (e) {
+    return {
+      settings: DEFAULT_SETTINGS,
+      repairs: [{ key: SETTINGS_KEY, message: 'could not be read, so all settings were reset to their defaults' }],
+      migratedFrom: null
+    };
+  }
+};
+
+const sanitizeValues = <T extends Partial<PianoSettings>>(values: T, fallback: PianoSettings): T => {
+  const sanitized: Partial<PianoSettings> = {};
+  (Object.keys(values) as (keyof PianoSettings)[]).forEach(<K extends keyof PianoSettings>(key: K) => {
+    sanitized[key] = sanitizeSetting(key, values[key], fallback[key]);
   });
+  return sanitized as T;
+};
+
+/**
+ * Global settings overlaid with the settings profile of the open score.
+ * Changing a value that the profile contains updates the profile instead of the global default.
+ */
+export const usePianoSettings = (
+  scoreProfile?: ScoreSettingsProfile,
+  onScoreProfileChange?: (profile: ScoreSettingsProfile | undefined) => void
+) => {
+  const [initialLoad] = useState(loadSavedSettings);
+  const [globalSettings, setSettings] = useState<PianoSettings>(initialLoad.settings);
+  const [settingsRepairs, setSettingsRepairs] = useState<SettingsRepair[]>(initialLoad.repairs);
+
+  useEffect(() => {
+    if (initialLoad.migratedFrom !== null) console.info(`Migrated settings from schema version ${initialLoad.migratedFrom}.`);
+    if (initialLoad.repairs.length > 0) console.warn('Repaired saved settings:', initialLoad.repairs);
+  }, [initialLoad]);
+
+  // 楽譜ごとの設定も IndexedDB から来るので同じ検証を通す
+  const settings = useMemo<PianoSettings>(
+    () => scoreProfile ? { ...globalSettings, ...sanitizeValues(scoreProfile, globalSettings) } : globalSettings,
+    [globalSettings, scoreProfile]
+  );
+  const scoreSettingKeys = useMemo(() => Object.keys(scoreProfile ?? {}) as ScoreSettingKey[], [scoreProfile]);
 
+  // 範囲外や型の違う値は保存する前に直す
   const updateSetting = <K extends keyof PianoSettings>(key: K, value: PianoSettings[K]) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
+    if (scoreProfile && onScoreProfileChange && key in scoreProfile) {
+      onScoreProfileChange({ ...scoreProfile, [key]: sanitizeSetting(key, value, settings[key]) });
+      return;
+    }
+    setSettings(prev => ({ ...prev, [key]: sanitizeSetting(key, value, prev[key]) }));
+  };
+
+  // 楽譜に保存する項目を切り替える。外すと全体の既定値に戻る
+  const toggleScoreSetting = (key: ScoreSettingKey) => {
+    if (!onScoreProfileChange) return;
+    if (scoreProfile && key in scoreProfile) {
+      const next = { ...scoreProfile };
+      delete next[key];
+      onScoreProfileChange(Object.keys(next).length > 0 ? next : undefined);
+    } else {
+      onScoreProfileChange({ ...scoreProfile, [key]: settings[key] });
+    }
   };
 
   const resetSettings = () => {
     setSettings(DEFAULT_SETTINGS);
   };
 
+  // バックアップなど外部から来た設定は保存時と同じく移行・検証してから使う
+  const replaceSettings = (next: unknown) => {
+    const result = loadSettings(next, DEFAULT_SETTINGS);
+    setSettings(result.settings);
+    setSettingsRepairs(result.repairs);
+  };
+
+  // プリセットの値だけを全体の設定に上書きする
+  const applySettings = (values: Partial<PianoSettings>) => {
+    setSettings(prev => ({ ...prev, ...sanitizeValues(values, prev) }));
+  };
+
   // Persist settings to localStorage
   useEffect(() => {
-    localStorage.setItem('piano_app_settings', JSON.stringify(settings));
-  }, [settings]);
+    localStorage.setItem(SETTINGS_KEY, serializeSettings(globalSettings));
+  }, [globalSettings]);
 
   return {
     settings,
+    globalSettings,
+    scoreSettingKeys,
+    canBindScoreSettings: !!onScoreProfileChange,
+    toggleScoreSetting,
     updateSetting,
     resetSettings,
+    replaceSettings,
+    applySettings,
+    settingsRepairs,
+    clearSettingsRepairs: () => setSettingsRepairs([]),
     // Helper accessors for convenience
     showAllLines: settings.showAllLines,
     setShowAllLines: (val: boolean) => updateSetting('showAllLines', val),
@@ -1,20 +1,22 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import * as JSSynth from 'js-synthesizer';
-import { PianoSettings } from '../types/piano';
+import { MidiEventPayload, PianoSettings } from '../types/piano';
 import { DEFAULT_SOUND_FONT_ID, findSoundFontPreset } from '../data/soundFonts';
 import { getUserSoundFontData } from '../utils/soundFontStorage';
+import { getZoneNotes, PRIMARY_CHANNEL, SECONDARY_CHANNEL, toChannelVolume, ZONE_CHANNELS, ZoneNote } from '../utils/keyboardZones';
+import { MidiOutputSender } from './useMidiOutput';
 
-interface MidiEventPayload {
-  type: 'note-on' | 'note-off' | 'sustain';
-  payload: { midi?: number; velocity?: number; active?: boolean };
-}
+export type MetronomeClickLevel = 'downbeat' | 'beat' | 'subdivision';
 
 interface FxToggleCapable {
   setReverbOn?: unknown;
   setChorusOn?: unknown;
 }
 
-const CHANNEL = 0;
+const WOOD_BLOCK_FREQUENCIES: Record<MetronomeClickLevel, number> = { downbeat: 1250, beat: 950, subdivision: 950 };
+const WOOD_BLOCK_PEAK = 0.5;
+const OSCILLATOR_CLICK_FREQUENCIES: Record<MetronomeClickLevel, number> = { downbeat: 1760, beat: 1320, subdivision: 880 };
+const PERCUSSION_CLICK_VELOCITIES: Record<MetronomeClickLevel, number> = { downbeat: 127, beat: 96, subdivision: 56 };
 const BASE_URL = import.meta.env.BASE_URL || '/';
 const LIBFLUIDSYNTH_CANDIDATES = [
   `${BASE_URL}vendor/libfluidsynth-2.4.6-with-libsndfile.js`,
@@ -86,32 +88,84 @@ const ensureMainThreadFluidSynthLoaded = () => {
   return mainThreadFluidSynthReadyPromise;
 };
 
+// 木魚風の短い減衰音（非整数倍音を少し混ぜる）
+const createWoodBlockBuffer = (ctx: AudioContext, frequency: number): AudioBuffer => {
+  const length = Math.ceil(ctx.sampleRate * 0.08);
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    const t = i / ctx.sampleRate;
+    const tone = 0.8 * Math.sin(2 * Math.PI * frequency * t) + 0.2 * Math.sin(2 * Math.PI * frequency * 2.76 * t);
+    data[i] = tone * Math.exp(-t * 60);
+  }
+  return buffer;
+};
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xB0;
+const PROGRAM_CHANGE = 0xC0;
+const SUSTAIN_CONTROL = 64;
+const VOLUME_CONTROL = 7;
+
+// 鍵盤ゾーンごとの音を内蔵音源と MIDI 出力の両方で鳴らす・止める
+const startZoneNotes = (notes: ZoneNote[], velocity: number, synth: JSSynth.ISynthesizer | null, sendOut?: MidiOutputSender) => {
+  notes.forEach(({ channel, midi }) => {
+    synth?.midiNoteOn(channel, midi, velocity);
+    sendOut?.([NOTE_ON | channel, midi, velocity]);
+  });
+};
+
+const stopZoneNotes = (notes: ZoneNote[], synth: JSSynth.ISynthesizer | null, sendOut?: MidiOutputSender) => {
+  notes.forEach(({ channel, midi }) => {
+    synth?.midiNoteOff(channel, midi);
+    sendOut?.([NOTE_OFF | channel, midi, 0]);
+  });
+};
+
 /**
  * Hook to play piano sounds using js-synthesizer (FluidSynth + SoundFont).
+ * In split and layer mode the second instrument plays on its own channel (see getZoneNotes).
+ * When sendMidiOut is given, notes are also sent to that MIDI output on the same channels (transposed, with the same velocity);
+ * internalSynthEnabled turns the FluidSynth sound off.
  */
 export const usePianoSound = (
   settings: PianoSettings,
-  _onSettingsChange: <K extends keyof PianoSettings>(key: K, value: PianoSettings[K]) => void
+  _onSettingsChange: <K extends keyof PianoSettings>(key: K, value: PianoSettings[K]) => void,
+  sendMidiOut?: MidiOutputSender
 ) => {
   const [isAudioStarted, setIsAudioStarted] = useState(false);
   const [isSamplesLoaded, setIsSamplesLoaded] = useState(false);
   const [audioEngine, setAudioEngine] = useState<'not-started' | 'worklet' | 'main-thread'>('not-started');
 
-  const { volume, reverb, transpose, sustainEnabled, velocitySensitivity, gmProgram, selectedSoundFontId, reverbEnabled, chorusEnabled } = settings;
+  const {
+    volume, reverb, transpose, sustainEnabled, velocitySensitivity, gmProgram, selectedSoundFontId, reverbEnabled, chorusEnabled,
+    internalSynthEnabled, primaryVolume, secondaryGmProgram, secondaryVolume
+  } = settings;
   const settingsRef = useRef(settings);
+  const sendMidiOutRef = useRef(sendMidiOut);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const synthRef = useRef<JSSynth.Synthesizer | JSSynth.AudioWorkletNodeSynthesizer | null>(null);
   const sfontIdRef = useRef<number | null>(null);
   const loadedSoundFontIdRef = useRef<string | null>(null);
-  const activeNotesRef = useRef<Map<number, number>>(new Map());
+  const activeNotesRef = useRef<Map<number, ZoneNote[]>>(new Map());
+  const scheduledNotesRef = useRef<Map<number, ZoneNote[]>>(new Map());
   const isSamplesLoadedRef = useRef(false);
+  const woodBlockBuffersRef = useRef(new Map<number, AudioBuffer>()); // 周波数ごとに作った音を使い回す
   const initAudioPromiseRef = useRef<Promise<void> | null>(null);
 
   useEffect(() => {
     settingsRef.current = settings;
   }, [settings]);
 
+  useEffect(() => {
+    sendMidiOutRef.current = sendMidiOut;
+  }, [sendMidiOut]);
+
+  // 内蔵音源を鳴らす場合だけシンセを返す
+  const getInternalSynth = () => settingsRef.current.internalSynthEnabled ? synthRef.current : null;
+
   useEffect(() => {
     isSamplesLoadedRef.current = isSamplesLoaded;
   }, [isSamplesLoaded]);
@@ -131,11 +185,16 @@ export const usePianoSound = (
     if (typeof fxSynth.setChorusOn === 'function') {
       fxSynth.setChorusOn(current.chorusEnabled);
     }
-    synth.midiControl(CHANNEL, 91, current.reverbEnabled ? Math.round(current.reverb * 127) : 0);
-    synth.midiControl(CHANNEL, 93, 0);
-    synth.midiControl(CHANNEL, 64, current.sustainEnabled ? 127 : 0);
+    ZONE_CHANNELS.forEach((channel) => {
+      synth.midiControl(channel, 91, current.reverbEnabled ? Math.round(current.reverb * 127) : 0);
+      synth.midiControl(channel, 93, 0);
+      synth.midiControl(channel, 64, current.sustainEnabled ? 127 : 0);
+    });
+    synth.midiControl(PRIMARY_CHANNEL, VOLUME_CONTROL, toChannelVolume(current.primaryVolume));
+    synth.midiControl(SECONDARY_CHANNEL, VOLUME_CONTROL, toChannelVolume(current.secondaryVolume));
     if (sfontIdRef.current !== null) {
-      synth.midiProgramSelect(CHANNEL, sfontIdRef.current, 0, current.gmProgram);
+      synth.midiProgramSelect(PRIMARY_CHANNEL, sfontIdRef.current, 0, current.gmProgram);
+      synth.midiProgramSelect(SECONDARY_CHANNEL, sfontIdRef.current, 0, current.secondaryGmProgram);
     }
   }, []);
 
@@ -249,15 +308,19 @@ export const usePianoSound = (
     }
   }, [initAudio]);
 
-  const processMidiEvent = useCallback((type: MidiEventPayload['type'], payload: MidiEventPayload['payload']) => {
-    const synth = synthRef.current;
-    if (!synth) return;
-
+  // 演奏中の入力。internal が false なら内蔵音源の準備前なので MIDI thru だけ送る
+  const processMidiEvent = useCallback((type: MidiEventPayload['type'], payload: MidiEventPayload['payload'], internal: boolean) => {
     const current = settingsRef.current;
+    const synth = internal ? getInternalSynth() : null;
+    const sendOut = current.midiThru ? sendMidiOutRef.current : undefined;
+    if (!synth && !sendOut) return;
 
     if (type === 'sustain') {
       const sustainValue = current.sustainEnabled ? 127 : (payload.active ? 127 : 0);
-      synth.midiControl(CHANNEL, 64, sustainValue);
+      ZONE_CHANNELS.forEach((channel) => {
+        synth?.midiControl(channel, SUSTAIN_CONTROL, sustainValue);
+        sendOut?.([CONTROL_CHANGE | channel, SUSTAIN_CONTROL, sustainValue]);
+      });
       return;
     }
 
@@ -265,49 +328,145 @@ export const usePianoSound = (
     if (typeof originalMidi !== 'number') return;
 
     if (type === 'note-on') {
-      const shiftedMidi = Math.max(0, Math.min(127, originalMidi + current.transpose));
+      const zoneNotes = getZoneNotes(originalMidi, current);
       const velocity = Math.max(1, Math.min(127, Math.round((payload.velocity ?? 1) * current.velocitySensitivity * 127)));
-      activeNotesRef.current.set(originalMidi, shiftedMidi);
-      synth.midiNoteOn(CHANNEL, shiftedMidi, velocity);
+      activeNotesRef.current.set(originalMidi, zoneNotes);
+      startZoneNotes(zoneNotes, velocity, synth, sendOut);
       return;
     }
 
-    const shiftedMidi = activeNotesRef.current.get(originalMidi) ?? Math.max(0, Math.min(127, originalMidi + current.transpose));
+    // 押している間にモードや移調が変わっても、鳴らしたときの音を止める
+    const zoneNotes = activeNotesRef.current.get(originalMidi) ?? getZoneNotes(originalMidi, current);
     activeNotesRef.current.delete(originalMidi);
-    synth.midiNoteOff(CHANNEL, shiftedMidi);
+    stopZoneNotes(zoneNotes, synth, sendOut);
   }, []);
 
   const handleMidiEvent = useCallback(({ type, payload }: MidiEventPayload) => {
     const ctx = audioContextRef.current;
     if (synthRef.current && ctx?.state === 'running' && isSamplesLoadedRef.current) {
-      processMidiEvent(type, payload);
+      processMidiEvent(type, payload, true);
       return;
     }
 
+    // MIDI thru は内蔵音源の準備を待たずに送る
+    processMidiEvent(type, payload, false);
+
     // Do not replay old MIDI events after async init/resume.
     // Replaying stale key presses feels like lag.
     void startAudio();
   }, [processMidiEvent, startAudio]);
 
   const playNotes = useCallback(async (midiNotes: number[]) => {
-    await startAudio();
-    const synth = synthRef.current;
-    if (!synth) return;
+    if (settingsRef.current.internalSynthEnabled) await startAudio();
+    const synth = getInternalSynth();
+    const sendOut = sendMidiOutRef.current;
+    if (!synth && !sendOut) return;
 
     const current = settingsRef.current;
     midiNotes.forEach(note => {
-      const shiftedMidi = Math.max(0, Math.min(127, note + current.transpose));
+      const zoneNotes = getZoneNotes(note, current);
       const velocity = Math.max(1, Math.min(127, Math.round(0.8 * current.velocitySensitivity * 127)));
-      synth.midiNoteOn(CHANNEL, shiftedMidi, velocity);
-      window.setTimeout(() => {
-        synth.midiNoteOff(CHANNEL, shiftedMidi);
-      }, 500);
+      startZoneNotes(zoneNotes, velocity, synth, sendOut);
+      window.setTimeout(() => stopZoneNotes(zoneNotes, synth, sendOut), 500);
     });
   }, [startAudio]);
 
+  // Low-level note control for scheduled playback (transpose is applied here)
+  const noteOn = useCallback((midi: number, velocity: number = 0.8) => {
+    const synth = getInternalSynth();
+    const sendOut = sendMidiOutRef.current;
+    if (!synth && !sendOut) return;
+
+    const current = settingsRef.current;
+    const zoneNotes = getZoneNotes(midi, current);
+    const midiVelocity = Math.max(1, Math.min(127, Math.round(velocity * current.velocitySensitivity * 127)));
+    scheduledNotesRef.current.set(midi, zoneNotes);
+    startZoneNotes(zoneNotes, midiVelocity, synth, sendOut);
+  }, []);
+
+  const noteOff = useCallback((midi: number) => {
+    const zoneNotes = scheduledNotesRef.current.get(midi);
+    if (!zoneNotes) return;
+
+    scheduledNotesRef.current.delete(midi);
+    stopZoneNotes(zoneNotes, getInternalSynth(), sendMidiOutRef.current);
+  }, []);
+
+  const allNotesOff = useCallback(() => {
+    Array.from(scheduledNotesRef.current.keys()).forEach(noteOff);
+  }, [noteOff]);
+
+  const getAudioTime = useCallback(() => audioContextRef.current?.currentTime ?? null, []);
+
+  // Metronome click at an AudioContext time, scheduled sample-accurately. FluidSynth has no timed events,
+  // so the wood block is rendered into an AudioBuffer instead of using the GM percussion channel.
+  const scheduleClick = useCallback((level: MetronomeClickLevel, time: number) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+
+    if (settingsRef.current.metronomeSound === 'oscillator') {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const peak = level === 'subdivision' ? 0.15 : 0.35;
+      osc.frequency.value = OSCILLATOR_CLICK_FREQUENCIES[level];
+      gain.gain.setValueAtTime(0, time);
+      gain.gain.linearRampToValueAtTime(peak, time + 0.002);
+      gain.gain.exponentialRampToValueAtTime(0.0001, time + 0.05);
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.start(time);
+      osc.stop(time + 0.06);
+      return;
+    }
+
+    const frequency = WOOD_BLOCK_FREQUENCIES[level];
+    let buffer = woodBlockBuffersRef.current.get(frequency);
+    if (!buffer) {
+      buffer = createWoodBlockBuffer(ctx, frequency);
+      woodBlockBuffersRef.current.set(frequency, buffer);
+    }
+    const source = ctx.createBufferSource();
+    const gain = ctx.createGain();
+    source.buffer = buffer;
+    gain.gain.value = (PERCUSSION_CLICK_VELOCITIES[level] / 127) * WOOD_BLOCK_PEAK;
+    source.connect(gain);
+    gain.connect(ctx.destination);
+    source.start(time);
+  }, []);
+
+  // Click played right away (count-in before a playback loop pass), with the same sound as the metronome
+  const playClick = useCallback((accent: boolean) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    scheduleClick(accent ? 'downbeat' : 'beat', ctx.currentTime);
+  }, [scheduleClick]);
+
   useEffect(() => {
     applyCurrentSettings();
-  }, [applyCurrentSettings, volume, reverb, sustainEnabled, velocitySensitivity, gmProgram, reverbEnabled, chorusEnabled]);
+  }, [
+    applyCurrentSettings, volume, reverb, sustainEnabled, velocitySensitivity, gmProgram, reverbEnabled, chorusEnabled,
+    primaryVolume, secondaryGmProgram, secondaryVolume
+  ]);
+
+  // 外部音源の音色と音量もゾーンの設定に合わせる（出力先を選んだときにも送る）
+  useEffect(() => {
+    sendMidiOut?.([PROGRAM_CHANGE | PRIMARY_CHANNEL, gmProgram]);
+    sendMidiOut?.([PROGRAM_CHANGE | SECONDARY_CHANNEL, secondaryGmProgram]);
+  }, [sendMidiOut, gmProgram, secondaryGmProgram]);
+
+  useEffect(() => {
+    sendMidiOut?.([CONTROL_CHANGE | PRIMARY_CHANNEL, VOLUME_CONTROL, toChannelVolume(primaryVolume)]);
+    sendMidiOut?.([CONTROL_CHANGE | SECONDARY_CHANNEL, VOLUME_CONTROL, toChannelVolume(secondaryVolume)]);
+  }, [sendMidiOut, primaryVolume, secondaryVolume]);
+
+  useEffect(() => {
+    ZONE_CHANNELS.forEach((channel) => sendMidiOut?.([CONTROL_CHANGE | channel, SUSTAIN_CONTROL, sustainEnabled ? 127 : 0]));
+  }, [sendMidiOut, sustainEnabled]);
+
+  // 内蔵音源を切ったら鳴っている音を止める
+  useEffect(() => {
+    if (!internalSynthEnabled) ZONE_CHANNELS.forEach((channel) => synthRef.current?.midiAllNotesOff(channel));
+  }, [internalSynthEnabled]);
 
   useEffect(() => {
     if (!synthRef.current) return;
@@ -330,7 +489,7 @@ export const usePianoSound = (
     return () => {
       const synth = synthRef.current;
       if (synth) {
-        synth.midiAllSoundsOff(CHANNEL);
+        ZONE_CHANNELS.forEach((channel) => synth.midiAllSoundsOff(channel));
         if (sfontIdRef.current !== null) {
           synth.unloadSFontAsync(sfontIdRef.current).catch(() => {});
         }
@@ -345,5 +504,5 @@ export const usePianoSound = (
     };
   }, []);
 
-  return { isAudioStarted, isSamplesLoaded, audioEngine, startAudio, playNotes, handleMidiEvent };
+  return { isAudioStarted, isSamplesLoaded, audioEngine, startAudio, playNotes, handleMidiEvent, noteOn, noteOff, allNotesOff, playClick, getAudioTime, scheduleClick };
 };
@@ -0,0 +1,246 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ScoreColumn } from '../types/piano';
+import { LoopBounds } from '../utils/scoreColumns';
+
+export type PlaybackState = 'stopped' | 'playing' | 'paused';
+
+interface PlaybackOptions {
+  tempo: number; // 四分音符 = BPM
+  visualTranspose: number;
+  startAudio: () => Promise<void>;
+  noteOn: (midi: number, velocity?: number) => void;
+  noteOff: (midi: number) => void;
+  allNotesOff: () => void;
+  playClick: (accent: boolean) => void;
+  loop: LoopBounds | null; // 指定時は範囲を繰り返し再生する
+  countIn: boolean; // ループの各周回の前に1小節分のカウントを入れる
+}
+
+interface PendingNoteOff {
+  midi: number;
+  time: number; // 全音符単位
+}
+
+interface PendingClick {
+  time: number; // 全音符単位
+  accent: boolean;
+}
+
+const TICK_INTERVAL_MS = 10;
+const MIN_NOTE_DURATION = 1 / 32;
+
+// 全音符単位の長さを四分音符 BPM から経過時間に換算する
+const wholeNotesPerMs = (tempo: number) => tempo / 4 / 60000;
+
+/**
+ * Hook to play the loaded score through the synthesizer.
+ * Note-on/off events are derived from the OSMD timestamps and note durations of each column.
+ */
+export const usePlayback = (columns: ScoreColumn[], options: PlaybackOptions) => {
+  const [state, setState] = useState<PlaybackState>('stopped');
+  const [positionIndex, setPositionIndex] = useState(0);
+
+  const optionsRef = useRef(options);
+  const columnsRef = useRef(columns);
+  const timerRef = useRef<number | null>(null);
+  const stateRef = useRef<PlaybackState>('stopped'); // tick から同期的に参照する
+  const pendingStartRef = useRef<object | null>(null); // 音源の準備を待っている再生要求
+  const nextIndexRef = useRef(0);
+  const positionRef = useRef(0);
+  const lastTickRef = useRef(0);
+  const pendingOffsRef = useRef<PendingNoteOff[]>([]);
+  const pendingClicksRef = useRef<PendingClick[]>([]);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  useEffect(() => {
+    columnsRef.current = columns;
+  }, [columns]);
+
+  const clearTimer = () => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const updateState = (next: PlaybackState) => {
+    stateRef.current = next;
+    setState(next);
+  };
+
+  const releaseAll = () => {
+    pendingOffsRef.current = [];
+    pendingClicksRef.current = [];
+    optionsRef.current.allNotesOff();
+  };
+
+  const playColumn = (column: ScoreColumn) => {
+    const { visualTranspose, noteOn, noteOff } = optionsRef.current;
+    const durations = new Map<number, number>();
+    column.notes.forEach((note) => {
+      if (note.isTieContinuation) return;
+      const midi = note.midi + visualTranspose;
+      durations.set(midi, Math.max(durations.get(midi) ?? 0, note.duration, MIN_NOTE_DURATION));
+    });
+
+    durations.forEach((duration, midi) => {
+      // 同じ音がまだ鳴っている場合は先に止めてから打鍵し直す
+      if (pendingOffsRef.current.some((off) => off.midi === midi)) {
+        noteOff(midi);
+        pendingOffsRef.current = pendingOffsRef.current.filter((off) => off.midi !== midi);
+      }
+      noteOn(midi);
+      pendingOffsRef.current.push({ midi, time: column.timestamp + duration });
+    });
+  };
+
+  const tick = () => {
+    // 一時停止・停止の後に残ったタイマーでは鳴らさない
+    if (stateRef.current !== 'playing') {
+      timerRef.current = null;
+      return;
+    }
+    const now = performance.now();
+    const cols = columnsRef.current;
+    positionRef.current += (now - lastTickRef.current) * wholeNotesPerMs(optionsRef.current.tempo);
+    lastTickRef.current = now;
+    const position = positionRef.current;
+
+    pendingOffsRef.current = pendingOffsRef.current.filter((off) => {
+      if (off.time > position) return true;
+      optionsRef.current.noteOff(off.midi);
+      return false;
+    });
+
+    pendingClicksRef.current = pendingClicksRef.current.filter((click) => {
+      if (click.time > position) return true;
+      optionsRef.current.playClick(click.accent);
+      return false;
+    });
+
+    const { loop } = optionsRef.current;
+    if (loop && position >= loop.endTime) {
+      releaseAll();
+      beginLoopPass(loop);
+      timerRef.current = window.setTimeout(tick, TICK_INTERVAL_MS);
+      return;
+    }
+
+    const lastIndex = loop ? loop.endIndex : cols.length - 1;
+    let index = nextIndexRef.current;
+    let lastPlayed = -1;
+    while (index <= lastIndex && cols[index].timestamp <= position) {
+      playColumn(cols[index]);
+      lastPlayed = index;
+      index++;
+    }
+    nextIndexRef.current = index;
+    if (lastPlayed >= 0) setPositionIndex(lastPlayed);
+
+    if (!loop && index >= cols.length && pendingOffsRef.current.length === 0) {
+      timerRef.current = null;
+      updateState('stopped');
+      setPositionIndex(0);
+      return;
+    }
+
+    timerRef.current = window.setTimeout(tick, TICK_INTERVAL_MS);
+  };
+
+  const startFrom = (index: number) => {
+    const cols = columnsRef.current;
+    const column = cols[index];
+    if (!column) return false;
+
+    nextIndexRef.current = index;
+    positionRef.current = column.timestamp;
+    lastTickRef.current = performance.now();
+    return true;
+  };
+
+  const beginLoopPass = (loop: LoopBounds) => {
+    const beatLength = 1 / loop.timeSignature.denominator;
+    const countInBeats = optionsRef.current.countIn ? loop.timeSignature.numerator : 0;
+    const passStart = loop.startTime - countInBeats * beatLength;
+
+    nextIndexRef.current = loop.startIndex;
+    positionRef.current = passStart;
+    lastTickRef.current = performance.now();
+    pendingClicksRef.current = Array.from({ length: countInBeats }, (_, beat) => ({
+      time: passStart + beat * beatLength,
+      accent: beat === 0
+    }));
+    setPositionIndex(loop.startIndex);
+  };
+
+  const play = useCallback(async (fromIndex?: number) => {
+    // 初回は SoundFont の読み込みに数秒かかるので、その間の再生要求は受け付けない
+    if (timerRef.current !== null || pendingStartRef.current) return;
+    const request = {};
+    pendingStartRef.current = request;
+    try {
+      await optionsRef.current.startAudio();
+    } catch (error) {
+      if (pendingStartRef.current === request) pendingStartRef.current = null;
+      throw error;
+    }
+    // 待っている間に停止・一時停止されたか、別の要求に置き換わっていれば開始しない
+    if (pendingStartRef.current !== request) return;
+    pendingStartRef.current = null;
+
+    const { loop } = optionsRef.current;
+    if (loop) {
+      beginLoopPass(loop);
+    } else {
+      const index = Math.min(fromIndex ?? positionIndex, columnsRef.current.length - 1);
+      if (!startFrom(index)) return;
+      setPositionIndex(index);
+    }
+
+    updateState('playing');
+    tick();
+  }, [positionIndex]);
+
+  const pause = useCallback(() => {
+    pendingStartRef.current = null;
+    clearTimer();
+    releaseAll();
+    if (stateRef.current === 'playing') updateState('paused');
+  }, []);
+
+  const stop = useCallback(() => {
+    pendingStartRef.current = null;
+    clearTimer();
+    releaseAll();
+    updateState('stopped');
+    setPositionIndex(0);
+  }, []);
+
+  const seek = useCallback((index: number) => {
+    if (index < 0 || index >= columnsRef.current.length) return;
+    setPositionIndex(index);
+    if (timerRef.current !== null) {
+      releaseAll();
+      startFrom(index);
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      clearTimer();
+      optionsRef.current.allNotesOff();
+    };
+  }, []);
+
+  return {
+    state,
+    positionIndex,
+    play,
+    pause,
+    stop,
+    seek
+  };
+};
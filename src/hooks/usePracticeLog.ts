@@ -0,0 +1,131 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { PracticeSession } from '../types/piano';
+import { listPracticeSessions, savePracticeSession } from '../utils/practiceSessionStorage';
+
+export interface PracticeActivity {
+  measures?: number[];
+  notes?: number;
+  accuracy?: number;
+  tempo?: number;
+}
+
+interface OpenSession {
+  startedAt: number;
+  lastActivityAt: number;
+  measures: Set<number>;
+  notesPlayed: number;
+  accuracies: number[];
+  tempo: number | null;
+}
+
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000; // 2分間操作がなければセッションを閉じる
+const MIN_SESSION_MS = 10 * 1000;
+
+/**
+ * Hook to log practice sessions of the current score into IndexedDB.
+ * A session opens on the first activity and is closed after an idle period, on score change or when the page is hidden.
+ */
+export const usePracticeLog = (scoreId: string) => {
+  const [sessions, setSessions] = useState<PracticeSession[]>([]);
+  const sessionRef = useRef<OpenSession | null>(null);
+  const idleTimerRef = useRef<number | null>(null);
+  const scoreIdRef = useRef(scoreId);
+
+  useEffect(() => {
+    scoreIdRef.current = scoreId;
+  }, [scoreId]);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listPracticeSessions(scoreId));
+    } catch (error) {
+      console.error('Failed to read practice sessions from IndexedDB:', error);
+      setSessions([]);
+    }
+  }, [scoreId]);
+
+  useEffect(() => {
+    void refreshSessions();
+  }, [refreshSessions]);
+
+  const closeSession = useCallback(async () => {
+    if (idleTimerRef.current !== null) {
+      window.clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    const open = sessionRef.current;
+    sessionRef.current = null;
+    if (!open) return;
+
+    const durationMs = open.lastActivityAt - open.startedAt;
+    if (durationMs < MIN_SESSION_MS && open.accuracies.length === 0) return;
+
+    const session: PracticeSession = {
+      id: `session-${open.startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      scoreId,
+      startedAt: open.startedAt,
+      endedAt: open.lastActivityAt,
+      durationMs,
+      measures: Array.from(open.measures).sort((a, b) => a - b),
+      notesPlayed: open.notesPlayed,
+      accuracy: open.accuracies.length > 0
+        ? open.accuracies.reduce((sum, value) => sum + value, 0) / open.accuracies.length
+        : null,
+      tempo: open.tempo
+    };
+
+    try {
+      await savePracticeSession(session);
+      // 切り替え後の楽譜の一覧を古い楽譜の一覧で上書きしない
+      if (scoreIdRef.current === scoreId) await refreshSessions();
+    } catch (error) {
+      console.error('Failed to store practice session:', error);
+    }
+  }, [scoreId, refreshSessions]);
+
+  const logActivity = useCallback((activity: PracticeActivity) => {
+    const now = Date.now();
+    if (!sessionRef.current) {
+      sessionRef.current = {
+        startedAt: now,
+        lastActivityAt: now,
+        measures: new Set(),
+        notesPlayed: 0,
+        accuracies: [],
+        tempo: null
+      };
+    }
+
+    const open = sessionRef.current;
+    open.lastActivityAt = now;
+    activity.measures?.forEach((measure) => open.measures.add(measure));
+    open.notesPlayed += activity.notes ?? 0;
+    if (activity.accuracy !== undefined) open.accuracies.push(activity.accuracy);
+    if (activity.tempo !== undefined) open.tempo = Math.max(open.tempo ?? 0, activity.tempo);
+
+    if (idleTimerRef.current !== null) window.clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = window.setTimeout(() => {
+      void closeSession();
+    }, IDLE_TIMEOUT_MS);
+  }, [closeSession]);
+
+  // 楽譜の切り替え・アンマウント時に開いているセッションを保存する
+  useEffect(() => {
+    return () => {
+      void closeSession();
+    };
+  }, [closeSession]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') void closeSession();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [closeSession]);
+
+  return {
+    sessions,
+    logActivity
+  };
+};
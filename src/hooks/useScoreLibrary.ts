@@ -1,54 +1,329 @@
-import { useState, useEffect, useMemo, ChangeEvent } from 'react';
-import { SavedScore } from '../types/piano';
+import { useState, useEffect, useRef, useCallback, ChangeEvent } from 'react';
+import { ScoreMetadata, ScoreSettingsProfile, ScoreVersion, TempoTrainerProgress } from '../types/piano';
 import { sampleMusicXML, clefChangeSampleXML } from '../data/sampleScores';
+import { decodeMidiFile } from '../utils/midiFile';
+import { convertMidiToMusicXml } from '../utils/midiToMusicXml';
+import { extractMusicXmlFromMxl, readMusicXmlMetadata } from '../utils/musicXmlFile';
+import { normalizeTags } from '../utils/scoreLibrary';
+import {
+  deleteScore, deleteScoreVersion, getStorageUsage, isQuotaExceededError, listScoreMetadata, loadScoreData, loadScoreVersionData,
+  migrateLocalStorageLibrary, saveScore, saveScoreMetadata, saveScoreRevision, StorageUsage, StoredScoreVersion
+} from '../utils/scoreStorage';
+import { hashText } from '../utils/contentHash';
+
+const isSampleId = (id: string) => id === 'sample' || id === 'clef-sample';
+
+const getSampleData = (id: string) => id === 'clef-sample' ? clefChangeSampleXML : sampleMusicXML;
+
+const createScoreId = () => Math.random().toString(36).substr(2, 9);
+
+const readScoreCredits = (data: string) => {
+  const info = readMusicXmlMetadata(data);
+  return {
+    title: info.title,
+    composer: info.composer ?? undefined,
+    lyricist: info.lyricist ?? undefined,
+    arranger: info.arranger ?? undefined,
+    copyright: info.copyright ?? undefined
+  };
+};
+
+// 現在の本文を過去の版として退避する
+const archiveCurrentVersion = (score: ScoreMetadata, data: string): [ScoreVersion, StoredScoreVersion] => {
+  const version: ScoreVersion = {
+    id: createScoreId(),
+    savedAt: score.updatedAt ?? score.timestamp,
+    size: score.size,
+    contentHash: score.contentHash
+  };
+  return [version, { id: version.id, scoreId: score.id, data }];
+};
+
+export type UploadConflictAction = 'replace' | 'keep-both' | 'new-version';
+
+// 同じタイトルで内容の異なる楽譜がアップロードされたときの確認待ち
+export interface UploadConflict {
+  existing: ScoreMetadata;
+  fileName: string;
+}
+
+interface PendingUpload {
+  existingId: string;
+  metadata: ScoreMetadata;
+  data: string;
+  onComplete?: () => void;
+}
 
 export const useScoreLibrary = () => {
-  const [scoreLibrary, setScoreLibrary] = useState<SavedScore[]>(() => {
-    const saved = localStorage.getItem('piano_score_library');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [scoreLibrary, setScoreLibrary] = useState<ScoreMetadata[]>([]);
+  const libraryRef = useRef(scoreLibrary);
 
   const [currentScoreId, setCurrentScoreId] = useState<string>(() => {
     return localStorage.getItem('piano_current_score_id') || 'sample';
   });
 
-  const [scoreData, setScoreData] = useState<string>(() => {
-    if (currentScoreId === 'sample') return sampleMusicXML;
-    if (currentScoreId === 'clef-sample') return clefChangeSampleXML;
-    const saved = localStorage.getItem('piano_score_library');
-    if (saved) {
-      const library: SavedScore[] = JSON.parse(saved);
-      const current = library.find(s => s.id === currentScoreId);
-      return current ? current.data : sampleMusicXML;
-    }
-    return sampleMusicXML;
-  });
+  // ライブラリの楽譜は IndexedDB から読み込むまで空にしておく（サンプルを一瞬表示しないため）
+  const [scoreData, setScoreData] = useState<string>(() => isSampleId(currentScoreId) ? getSampleData(currentScoreId) : '');
+
+  const [isLoading, setIsLoading] = useState(() => !isSampleId(currentScoreId));
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [libraryNotice, setLibraryNotice] = useState<string | null>(null);
+  const [uploadConflict, setUploadConflict] = useState<UploadConflict | null>(null);
+  const pendingUploadRef = useRef<PendingUpload | null>(null);
+
+  useEffect(() => {
+    libraryRef.current = scoreLibrary;
+  }, [scoreLibrary]);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch((error) => console.warn('Failed to estimate storage usage:', error));
+  }, []);
+
+  const reportStorageError = useCallback((action: string, error: unknown) => {
+    console.error(`Failed to ${action}:`, error);
+    setStorageError(isQuotaExceededError(error)
+      ? `Storage is full, so the app could not ${action}. Delete some scores, recordings or SoundFonts and try again.`
+      : `Could not ${action}. ${error instanceof Error ? error.message : ''}`.trim());
+    refreshStorageUsage();
+  }, [refreshStorageUsage]);
 
-  const [isLoading, setIsLoading] = useState(false);
+  // 旧バージョンの localStorage ライブラリを移行してから一覧と現在の楽譜を読み込む
+  useEffect(() => {
+    let cancelled = false;
+    const initialize = async () => {
+      try {
+        const migrated = await migrateLocalStorageLibrary();
+        if (migrated > 0) console.info(`Migrated ${migrated} scores from localStorage to IndexedDB.`);
+      } catch (error) {
+        reportStorageError('move the saved scores to the new storage', error);
+      }
+
+      try {
+        const library = await listScoreMetadata();
+        if (cancelled) return;
+        setScoreLibrary(library);
+
+        const initialId = localStorage.getItem('piano_current_score_id') || 'sample';
+        if (isSampleId(initialId)) return;
+        const data = await loadScoreData(initialId);
+        if (cancelled) return;
+        if (data !== null) {
+          setScoreData(data);
+        } else {
+          setScoreData(sampleMusicXML);
+          setCurrentScoreId('sample');
+        }
+      } catch (error) {
+        if (cancelled) return;
+        reportStorageError('load the score library', error);
+        setScoreData(sampleMusicXML);
+        setCurrentScoreId('sample');
+      }
+      refreshStorageUsage();
+    };
+    void initialize();
+    return () => {
+      cancelled = true;
+    };
+  }, [reportStorageError, refreshStorageUsage]);
 
-  // Save library and state to localStorage
   useEffect(() => {
+    localStorage.setItem('piano_current_score_id', currentScoreId);
+  }, [currentScoreId]);
+
+  const replaceLibraryEntry = (next: ScoreMetadata) => {
+    libraryRef.current = libraryRef.current.map(s => s.id === next.id ? next : s);
+    setScoreLibrary(libraryRef.current);
+  };
+
+  // 一覧の状態を先に更新し、メタデータだけを保存する
+  const updateMetadata = (id: string, update: (score: ScoreMetadata) => ScoreMetadata | null) => {
+    const score = libraryRef.current.find(s => s.id === id);
+    if (!score) return;
+    const next = update(score);
+    if (!next || next === score) return;
+    replaceLibraryEntry(next);
+    saveScoreMetadata(next).catch((error) => reportStorageError('save the score details', error));
+  };
+
+  // Prevent exact duplicates by adding a suffix if needed
+  const getUniqueName = (name: string, id?: string) => {
+    let finalName = name;
+    let counter = 1;
+    while (libraryRef.current.some(s => s.id !== id && s.name === finalName)) {
+      finalName = `${name} (${counter++})`;
+    }
+    return finalName;
+  };
+
+  // 楽譜のタイトルが無ければファイル名を使う
+  const createScoreMetadata = (data: string, fileName: string, contentHash: string): ScoreMetadata => {
+    const { title, ...credits } = readScoreCredits(data);
+    return {
+      id: createScoreId(),
+      name: (title ?? fileName.replace(/\.[^/.]+$/, "")).trim(),
+      timestamp: Date.now(),
+      lastOpened: Date.now(),
+      size: data.length,
+      contentHash,
+      ...credits
+    };
+  };
+
+  // 同じ内容の楽譜を探す。ハッシュ導入前の楽譜は長さが同じときだけ本文を比べる
+  const findDuplicateScore = async (data: string, contentHash: string) => {
+    for (const score of libraryRef.current) {
+      if (score.contentHash === contentHash) return { score, isEarlierVersion: false };
+      if (!score.contentHash && score.size === data.length && await loadScoreData(score.id) === data) {
+        updateMetadata(score.id, (current) => ({ ...current, contentHash }));
+        return { score, isEarlierVersion: false };
+      }
+    }
+    const score = libraryRef.current.find(s => s.versions?.some(v => v.contentHash === contentHash));
+    return score ? { score, isEarlierVersion: true } : null;
+  };
+
+  const saveNewScore = async (metadata: ScoreMetadata, data: string, onComplete?: () => void) => {
     try {
-      localStorage.setItem('piano_score_library', JSON.stringify(scoreLibrary));
-      localStorage.setItem('piano_current_score_id', currentScoreId);
-    } catch (e) {
-      console.warn('Failed to save score library to localStorage:', e);
+      await saveScore({ ...metadata, data });
+      libraryRef.current = [metadata, ...libraryRef.current];
+      setScoreLibrary(libraryRef.current);
+      setScoreData(data);
+      setCurrentScoreId(metadata.id);
+      onComplete?.();
+      refreshStorageUsage();
+    } catch (err) {
+      reportStorageError(`save "${metadata.name}"`, err);
     }
-  }, [scoreLibrary, currentScoreId]);
+  };
 
-  // Extract title from MusicXML
-  const extractTitleFromXML = (xmlString: string, fallbackName: string): string => {
+  const addScore = async (data: string, fileName: string, onComplete?: () => void) => {
     try {
-      if (!xmlString.includes('<?xml')) return fallbackName.replace(/\.[^/.]+$/, "").trim();
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlString, "text/xml");
-      const workTitle = xmlDoc.getElementsByTagName("work-title")[0]?.textContent;
-      const movementTitle = xmlDoc.getElementsByTagName("movement-title")[0]?.textContent;
-      const creditText = xmlDoc.getElementsByTagName("credit-words")[0]?.textContent;
-      const title = workTitle || movementTitle || creditText || fallbackName.replace(/\.[^/.]+$/, "");
-      return title.trim();
-    } catch (e) {
-      return fallbackName.replace(/\.[^/.]+$/, "").trim();
+      const metadata = createScoreMetadata(data, fileName, await hashText(data));
+
+      const duplicate = await findDuplicateScore(data, metadata.contentHash!);
+      if (duplicate) {
+        setLibraryNotice(duplicate.isEarlierVersion
+          ? `This file matches an earlier version of "${duplicate.score.name}". You can restore it from the score's history in the library.`
+          : `"${duplicate.score.name}" is already in your library, so it was opened instead of added again.`);
+        if (duplicate.score.id !== currentScoreId) await handleScoreChange(duplicate.score.id, onComplete);
+        return;
+      }
+
+      const sameTitle = libraryRef.current.find(s => s.name.toLowerCase() === metadata.name.toLowerCase());
+      if (sameTitle) {
+        pendingUploadRef.current = { existingId: sameTitle.id, metadata, data, onComplete };
+        setUploadConflict({ existing: sameTitle, fileName });
+        return;
+      }
+
+      await saveNewScore(metadata, data, onComplete);
+    } catch (err) {
+      reportStorageError('add the score', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Finishes an upload that has the same title as a score in the library. Passing null cancels it.
+   */
+  const resolveUploadConflict = async (action: UploadConflictAction | null) => {
+    const pending = pendingUploadRef.current;
+    pendingUploadRef.current = null;
+    setUploadConflict(null);
+    if (!pending || !action) return;
+
+    const { metadata, data, onComplete } = pending;
+    if (action === 'keep-both') {
+      await saveNewScore({ ...metadata, name: getUniqueName(metadata.name) }, data, onComplete);
+      return;
+    }
+
+    const existing = libraryRef.current.find(s => s.id === pending.existingId);
+    if (!existing) return;
+    setIsLoading(true);
+    try {
+      let archived: StoredScoreVersion | null = null;
+      let versions = existing.versions;
+      if (action === 'new-version') {
+        const previous = await loadScoreData(existing.id);
+        if (previous !== null) {
+          const [version, row] = archiveCurrentVersion(existing, previous);
+          archived = row;
+          versions = [...(existing.versions ?? []), version];
+        }
+      }
+      const { title, ...credits } = readScoreCredits(data);
+      const next: ScoreMetadata = {
+        ...existing,
+        ...credits,
+        size: data.length,
+        contentHash: metadata.contentHash,
+        updatedAt: Date.now(),
+        lastOpened: Date.now(),
+        versions
+      };
+      await saveScoreRevision({ ...next, data }, archived);
+      replaceLibraryEntry(next);
+      setScoreData(data);
+      setCurrentScoreId(existing.id);
+      onComplete?.();
+      refreshStorageUsage();
+    } catch (err) {
+      reportStorageError(`update "${existing.name}"`, err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Makes an earlier version the current one. The body it replaces is kept as a version.
+   */
+  const restoreScoreVersion = async (scoreId: string, versionId: string) => {
+    const score = libraryRef.current.find(s => s.id === scoreId);
+    const version = score?.versions?.find(v => v.id === versionId);
+    if (!score || !version) return;
+
+    try {
+      const data = await loadScoreVersionData(versionId);
+      if (data === null) throw new Error('The version data is missing.');
+      const current = await loadScoreData(scoreId);
+      const archived = current !== null ? archiveCurrentVersion(score, current) : null;
+      const { title, ...credits } = readScoreCredits(data);
+      const next: ScoreMetadata = {
+        ...score,
+        ...credits,
+        size: data.length,
+        contentHash: version.contentHash ?? await hashText(data),
+        updatedAt: Date.now(),
+        versions: [...(score.versions ?? []).filter(v => v.id !== versionId), ...(archived ? [archived[0]] : [])]
+      };
+      await saveScoreRevision({ ...next, data }, archived ? archived[1] : null, versionId);
+      replaceLibraryEntry(next);
+      if (scoreId === currentScoreId) {
+        setIsLoading(true);
+        setScoreData(data);
+      }
+      refreshStorageUsage();
+    } catch (error) {
+      reportStorageError('restore the earlier version', error);
+    }
+  };
+
+  const removeScoreVersion = async (scoreId: string, versionId: string) => {
+    const score = libraryRef.current.find(s => s.id === scoreId);
+    if (!score) return;
+    const next: ScoreMetadata = { ...score, versions: (score.versions ?? []).filter(v => v.id !== versionId) };
+    try {
+      await deleteScoreVersion(next, versionId);
+      replaceLibraryEntry(next);
+      refreshStorageUsage();
+    } catch (error) {
+      reportStorageError('delete the version', error);
     }
   };
 
@@ -57,114 +332,180 @@ export const useScoreLibrary = () => {
     if (!file) return;
     
     setIsLoading(true);
-    const isMxl = file.name.toLowerCase().endsWith('.mxl');
+    const lowerName = file.name.toLowerCase();
+    const isMxl = lowerName.endsWith('.mxl');
+    const isMidi = lowerName.endsWith('.mid') || lowerName.endsWith('.midi');
     const reader = new FileReader();
     
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       const result = e.target?.result;
-      if (typeof result === 'string') {
-        const rawTitle = isMxl ? file.name.replace(/\.[^/.]+$/, "") : extractTitleFromXML(result, file.name);
-        const title = rawTitle.trim();
-        
-        const newScore: SavedScore = {
-          id: Math.random().toString(36).substr(2, 9),
-          name: title,
-          data: result,
-          timestamp: Date.now()
-        };
+      if (result instanceof ArrayBuffer && isMxl) {
+        // 圧縮 MusicXML は展開した XML を保存する
+        try {
+          await addScore(await extractMusicXmlFromMxl(result), file.name, onComplete);
+        } catch (err) {
+          console.error('Failed to import MXL file:', err);
+          alert('Failed to import MXL file.');
+          setIsLoading(false);
+        }
+        return;
+      }
 
+      if (result instanceof ArrayBuffer) {
+        // Standard MIDI File は MusicXML に変換して保存する
         try {
-          setScoreLibrary(prev => [newScore, ...prev]);
-          setScoreData(result);
-          setCurrentScoreId(newScore.id);
-          onComplete?.();
+          const musicXml = convertMidiToMusicXml(decodeMidiFile(result), file.name.replace(/\.[^/.]+$/, "").trim());
+          void addScore(musicXml, file.name, onComplete);
         } catch (err) {
-          alert('Storage is full. Please delete some scores.');
-        } finally {
+          console.error('Failed to import MIDI file:', err);
+          alert('Failed to import MIDI file.');
           setIsLoading(false);
         }
+        return;
+      }
+
+      if (typeof result === 'string') {
+        void addScore(result, file.name, onComplete);
       }
     };
 
-    if (isMxl) {
-      reader.readAsBinaryString(file);
+    if (isMidi || isMxl) {
+      reader.readAsArrayBuffer(file);
     } else {
       reader.readAsText(file, 'UTF-8');
     }
   };
 
-  const handleScoreChange = (id: string, onBeforeChange?: () => void) => {
+  const handleScoreChange = async (id: string, onBeforeChange?: () => void) => {
     if (id === currentScoreId) return;
+
+    if (isSampleId(id)) {
+      setIsLoading(true);
+      onBeforeChange?.();
+      setScoreData(getSampleData(id));
+      setCurrentScoreId(id);
+      return;
+    }
+    if (!libraryRef.current.some(s => s.id === id)) return;
+
     setIsLoading(true);
-    onBeforeChange?.();
-    
-    if (id === 'sample') {
-      setScoreData(sampleMusicXML);
-      setCurrentScoreId('sample');
-    } else if (id === 'clef-sample') {
-      setScoreData(clefChangeSampleXML);
-      setCurrentScoreId('clef-sample');
-    } else {
-      const score = scoreLibrary.find(s => s.id === id);
-      if (score) {
-        setScoreData(score.data);
-        setCurrentScoreId(id);
-      }
+    try {
+      const data = await loadScoreData(id);
+      if (data === null) throw new Error('The score data is missing.');
+      onBeforeChange?.();
+      setScoreData(data);
+      setCurrentScoreId(id);
+      updateMetadata(id, (score) => ({ ...score, lastOpened: Date.now() }));
+    } catch (error) {
+      reportStorageError('open the score', error);
+      setIsLoading(false);
     }
   };
 
-  const handleDeleteScore = (id: string) => {
-    if (id === 'sample' || id === 'clef-sample') return;
-    
-    const newLibrary = scoreLibrary.filter(s => s.id !== id);
-    setScoreLibrary(newLibrary);
-    
+  const handleDeleteScore = async (id: string) => {
+    if (isSampleId(id)) return;
+
+    try {
+      await deleteScore(id);
+    } catch (error) {
+      reportStorageError('delete the score', error);
+      return;
+    }
+    setScoreLibrary(prev => prev.filter(s => s.id !== id));
+    refreshStorageUsage();
+
     if (currentScoreId === id) {
-      handleScoreChange('sample');
+      void handleScoreChange('sample');
+    }
+  };
+
+  // バックアップの取り込み後などに一覧と現在の楽譜を読み直す
+  const reloadLibrary = async () => {
+    try {
+      const library = await listScoreMetadata();
+      setScoreLibrary(library);
+      libraryRef.current = library;
+      if (!isSampleId(currentScoreId)) {
+        const data = await loadScoreData(currentScoreId);
+        if (data === null) {
+          setIsLoading(true);
+          setScoreData(sampleMusicXML);
+          setCurrentScoreId('sample');
+        } else if (data !== scoreData) {
+          setIsLoading(true);
+          setScoreData(data);
+        }
+      }
+    } catch (error) {
+      reportStorageError('load the score library', error);
     }
+    refreshStorageUsage();
   };
 
   const renameScore = (id: string, newName: string) => {
     const trimmedName = newName.trim();
     if (!trimmedName) return;
-    
-    setScoreLibrary(prev => {
-      // Prevent exact duplicates by adding a suffix if needed
-      let finalName = trimmedName;
-      let counter = 1;
-      while (prev.some(s => s.id !== id && s.name === finalName)) {
-        finalName = `${trimmedName} (${counter++})`;
-      }
-
-      return prev.map(s => s.id === id ? { ...s, name: finalName } : s);
-    });
+    const finalName = getUniqueName(trimmedName, id);
+    updateMetadata(id, (score) => ({ ...score, name: finalName }));
   };
 
   const updateScoreNameFromTitle = (id: string, title: string) => {
     if (!title || title === "Untitled" || title === "Unknown") return;
     const trimmedTitle = title.trim();
-    setScoreLibrary(prev => {
-      const score = prev.find(s => s.id === id);
-      if (score && (score.name.includes('.') || score.name === 'Grand Staff Sample')) {
-        if (score.name !== trimmedTitle) {
-          return prev.map(s => s.id === id ? { ...s, name: trimmedTitle } : s);
-        }
+    updateMetadata(id, (score) => {
+      if ((score.name.includes('.') || score.name === 'Grand Staff Sample') && score.name !== trimmedTitle) {
+        return { ...score, name: trimmedTitle };
       }
-      return prev;
+      return null;
     });
   };
 
+  const updateScoreOrganization = (id: string, organization: Pick<ScoreMetadata, 'folder' | 'tags'>) => {
+    updateMetadata(id, (score) => ({
+      ...score,
+      folder: organization.folder?.trim() || undefined,
+      tags: organization.tags && organization.tags.length > 0 ? normalizeTags(organization.tags) : undefined
+    }));
+  };
+
+  const toggleFavorite = (id: string) => {
+    updateMetadata(id, (score) => ({ ...score, favorite: !score.favorite }));
+  };
+
+  const updateScoreTempoTrainer = (id: string, tempoTrainer: TempoTrainerProgress) => {
+    updateMetadata(id, (score) => ({ ...score, tempoTrainer }));
+  };
+
+  const updateScoreSettingsProfile = (id: string, settingsProfile: ScoreSettingsProfile | undefined) => {
+    updateMetadata(id, (score) => ({ ...score, settingsProfile }));
+  };
+
   return {
     scoreLibrary,
     currentScoreId,
     scoreData,
     isLoading,
     setIsLoading,
+    storageUsage,
+    refreshStorageUsage,
+    storageError,
+    clearStorageError: () => setStorageError(null),
+    libraryNotice,
+    clearLibraryNotice: () => setLibraryNotice(null),
+    uploadConflict,
+    resolveUploadConflict,
+    restoreScoreVersion,
+    removeScoreVersion,
     handleFileUpload,
     handleScoreChange,
     handleDeleteScore,
+    reloadLibrary,
     renameScore,
-    updateScoreNameFromTitle
+    updateScoreNameFromTitle,
+    updateScoreOrganization,
+    toggleFavorite,
+    updateScoreTempoTrainer,
+    updateScoreSettingsProfile
   };
 };
 
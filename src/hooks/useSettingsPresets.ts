@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { PianoSettings, SettingsPreset } from '../types/piano';
+import { validateSettings } from '../utils/settingsSchema';
+import { parsePresetFile, pickPresetSettings, serializePreset } from '../utils/settingsPresets';
+import { downloadBlob, toSafeFileName } from '../utils/download';
+
+const PRESETS_KEY = 'piano_settings_presets';
+
+// 壊れたプリセットは読み込み時に捨てる
+const loadPresets = (): SettingsPreset[] => {
+  const saved = localStorage.getItem(PRESETS_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((preset): SettingsPreset[] => {
+      if (!preset || typeof preset.id !== 'string' || typeof preset.name !== 'string') return [];
+      const { settings, errors } = validateSettings(preset.settings);
+      if (errors.length > 0) console.warn(`Ignoring invalid values in preset "${preset.name}":`, errors);
+      return [{ id: preset.id, name: preset.name, createdAt: Number(preset.createdAt) || 0, settings }];
+    });
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Named settings presets stored in localStorage, with JSON import and export for sharing.
+ */
+export const useSettingsPresets = () => {
+  const [presets, setPresets] = useState<SettingsPreset[]>(loadPresets);
+
+  useEffect(() => {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  }, [presets]);
+
+  // 同じ名前のプリセットがあれば上書きする
+  const addPreset = (name: string, settings: Partial<PianoSettings>): SettingsPreset => {
+    const trimmedName = name.trim();
+    const existing = presets.find((preset) => preset.name === trimmedName);
+    const preset: SettingsPreset = existing
+      ? { ...existing, settings }
+      : { id: Math.random().toString(36).substr(2, 9), name: trimmedName, createdAt: Date.now(), settings };
+    setPresets((prev) => existing ? prev.map((item) => item.id === existing.id ? preset : item) : [...prev, preset]);
+    return preset;
+  };
+
+  const savePreset = (name: string, settings: PianoSettings) => addPreset(name, pickPresetSettings(settings));
+
+  const deletePreset = (id: string) => {
+    setPresets((prev) => prev.filter((preset) => preset.id !== id));
+  };
+
+  /**
+   * Validates a preset file and adds it. Throws when the file is invalid.
+   */
+  const importPreset = async (file: File): Promise<SettingsPreset> => {
+    const { name, settings } = parsePresetFile(await file.text());
+    return addPreset(name, settings);
+  };
+
+  const exportPreset = (preset: SettingsPreset) => {
+    downloadBlob(new Blob([serializePreset(preset)], { type: 'application/json' }), `${toSafeFileName(preset.name)}.json`);
+  };
+
+  return {
+    presets,
+    savePreset,
+    deletePreset,
+    importPreset,
+    exportPreset
+  };
+};
@@ -0,0 +1,240 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  LoopRange, MeasureContext, MidiEventPayload, RecordedMidiEvent, ScoreColumn, TempoLadderConfig, TempoTrainerProgress
+} from '../types/piano';
+import { MetronomeRunOptions } from './useMetronome';
+import { analyzePerformance } from '../utils/performanceAnalysis';
+import { LoopBounds } from '../utils/scoreColumns';
+
+export const DEFAULT_TEMPO_LADDER: TempoLadderConfig = {
+  startPercent: 60,
+  targetPercent: 100,
+  stepPercent: 5,
+  onFailure: 'step-back',
+  cleanAccuracy: 0.95
+};
+
+export interface TempoTrainerRep {
+  percent: number;
+  tempo: number;
+  accuracy: number;
+  isClean: boolean;
+}
+
+interface TempoTrainerOptions {
+  scoreId: string;
+  contexts: MeasureContext[];
+  columns: ScoreColumn[];
+  loopRange: LoopRange | null;
+  loopBounds: LoopBounds | null;
+  visualTranspose: number;
+  countInBars: number;
+  progress: TempoTrainerProgress | null;
+  onProgressChange: (progress: TempoTrainerProgress) => void;
+  startMetronome: (fromMeasureNumber?: number, runOptions?: MetronomeRunOptions) => Promise<void>;
+  stopMetronome: () => void;
+}
+
+const MIN_PERCENT = 10;
+const PAUSE_BETWEEN_REPS_MS = 1200;
+
+const isSameRange = (a: LoopRange | null | undefined, b: LoopRange | null | undefined) =>
+  !!a && !!b && a.startMeasure === b.startMeasure && a.endMeasure === b.endMeasure;
+
+// ラダーの % は範囲の最初の小節のテンポ指示を基準にする
+const getMarkedTempo = (contexts: MeasureContext[], range: LoopRange | null) =>
+  contexts.find((ctx) => ctx.measureNumber === range?.startMeasure)?.tempo ?? 120;
+
+/**
+ * Hook for a progressive tempo ladder over the A–B loop.
+ * Each repetition is clicked by the metronome at a percentage of the marked tempo and judged with the performance analysis;
+ * clean repetitions raise the tempo, failed ones stop the ladder or step it back.
+ */
+export const useTempoTrainer = (options: TempoTrainerOptions) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [currentPercent, setCurrentPercent] = useState<number | null>(null);
+  const [reps, setReps] = useState<TempoTrainerRep[]>([]);
+  const [isComplete, setIsComplete] = useState(false);
+
+  const optionsRef = useRef(options);
+  const isRunningRef = useRef(false);
+  const eventsRef = useRef<RecordedMidiEvent[]>([]);
+  const passStartRef = useRef(0);
+  const pauseTimerRef = useRef<number | null>(null);
+  const evaluatePassRef = useRef<(percent: number) => void>(() => {});
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  const getConfig = useCallback((): TempoLadderConfig => {
+    const { progress } = optionsRef.current;
+    return progress?.config ?? DEFAULT_TEMPO_LADDER;
+  }, []);
+
+  const saveProgress = useCallback((nextPercent: number, cleanPercent: number | null) => {
+    const { progress, contexts, loopRange, onProgressChange } = optionsRef.current;
+    if (!loopRange) return;
+    const sameRange = isSameRange(progress?.range, loopRange);
+    const previousBest = sameRange ? progress?.bestPercent ?? null : null;
+    const bestPercent = cleanPercent !== null ? Math.max(previousBest ?? 0, cleanPercent) : previousBest;
+
+    onProgressChange({
+      range: loopRange,
+      config: getConfig(),
+      currentPercent: nextPercent,
+      bestPercent,
+      bestTempo: bestPercent !== null ? Math.round((getMarkedTempo(contexts, loopRange) * bestPercent) / 100) : null,
+      updatedAt: Date.now()
+    });
+  }, [getConfig]);
+
+  const clearPauseTimer = () => {
+    if (pauseTimerRef.current !== null) {
+      window.clearTimeout(pauseTimerRef.current);
+      pauseTimerRef.current = null;
+    }
+  };
+
+  const stop = useCallback(() => {
+    clearPauseTimer();
+    if (!isRunningRef.current) return;
+    isRunningRef.current = false;
+    setIsRunning(false);
+    optionsRef.current.stopMetronome();
+  }, []);
+
+  const runPass = useCallback((percent: number) => {
+    const { loopRange, countInBars, startMetronome } = optionsRef.current;
+    if (!loopRange || !isRunningRef.current) return;
+
+    setCurrentPercent(percent);
+    eventsRef.current = [];
+    passStartRef.current = performance.now();
+
+    void startMetronome(loopRange.startMeasure, {
+      endMeasureNumber: loopRange.endMeasure,
+      tempoScale: percent / 100,
+      countInBars: Math.max(1, countInBars),
+      onComplete: () => evaluatePassRef.current(percent)
+    });
+  }, []);
+
+  const evaluatePass = useCallback((percent: number) => {
+    if (!isRunningRef.current) return;
+    const { scoreId, contexts, columns, loopRange, loopBounds, visualTranspose } = optionsRef.current;
+    const config = getConfig();
+    const tempo = Math.round((getMarkedTempo(contexts, loopRange) * percent) / 100);
+    const passColumns = loopBounds ? columns.slice(loopBounds.startIndex, loopBounds.endIndex + 1) : columns;
+
+    const report = analyzePerformance({
+      id: 'tempo-trainer',
+      scoreId,
+      name: 'Tempo trainer',
+      createdAt: Date.now(),
+      durationMs: performance.now() - passStartRef.current,
+      tempo,
+      events: eventsRef.current
+    }, passColumns, visualTranspose);
+
+    const isClean = report.expectedNotes > 0 && report.accuracy >= config.cleanAccuracy;
+    setReps((prev) => [...prev, { percent, tempo, accuracy: report.accuracy, isClean }]);
+
+    let nextPercent = percent;
+    if (isClean) {
+      if (percent >= config.targetPercent) {
+        saveProgress(percent, percent);
+        isRunningRef.current = false;
+        setIsRunning(false);
+        setIsComplete(true);
+        return;
+      }
+      nextPercent = Math.min(config.targetPercent, percent + config.stepPercent);
+    } else if (config.onFailure === 'stop') {
+      saveProgress(percent, null);
+      isRunningRef.current = false;
+      setIsRunning(false);
+      return;
+    } else {
+      nextPercent = Math.max(MIN_PERCENT, percent - config.stepPercent);
+    }
+
+    saveProgress(nextPercent, isClean ? percent : null);
+    setCurrentPercent(nextPercent);
+    pauseTimerRef.current = window.setTimeout(() => {
+      pauseTimerRef.current = null;
+      runPass(nextPercent);
+    }, PAUSE_BETWEEN_REPS_MS);
+  }, [getConfig, saveProgress, runPass]);
+
+  useEffect(() => {
+    evaluatePassRef.current = evaluatePass;
+  }, [evaluatePass]);
+
+  const start = useCallback((fromStart: boolean = false) => {
+    const { progress, loopRange } = optionsRef.current;
+    if (!loopRange) return;
+    clearPauseTimer();
+
+    const config = getConfig();
+    const canResume = !fromStart && isSameRange(progress?.range, loopRange);
+    const percent = canResume && progress ? progress.currentPercent : config.startPercent;
+
+    isRunningRef.current = true;
+    setIsRunning(true);
+    setIsComplete(false);
+    setReps([]);
+    runPass(percent);
+  }, [getConfig, runPass]);
+
+  const updateConfig = useCallback((config: TempoLadderConfig) => {
+    const { progress, loopRange, onProgressChange } = optionsRef.current;
+    if (!loopRange) return;
+    const current = isSameRange(progress?.range, loopRange) ? progress : null;
+    onProgressChange({
+      range: loopRange,
+      config,
+      currentPercent: current?.currentPercent ?? config.startPercent,
+      bestPercent: current?.bestPercent ?? null,
+      bestTempo: current?.bestTempo ?? null,
+      updatedAt: Date.now()
+    });
+  }, []);
+
+  const capture = useCallback((event: MidiEventPayload) => {
+    if (!isRunningRef.current) return;
+    const timestamp = event.timestamp ?? performance.now();
+    eventsRef.current.push({
+      time: Math.max(0, timestamp - passStartRef.current),
+      type: event.type,
+      midi: event.payload.midi,
+      velocity: event.payload.velocity !== undefined ? Math.round(event.payload.velocity * 127) : undefined,
+      active: event.payload.active
+    });
+  }, []);
+
+  // 楽譜やループ範囲が変わったらラダーを止める
+  useEffect(() => {
+    stop();
+    setReps([]);
+    setCurrentPercent(null);
+    setIsComplete(false);
+  }, [options.scoreId, options.loopRange, stop]);
+
+  useEffect(() => () => clearPauseTimer(), []);
+
+  const markedTempo = getMarkedTempo(options.contexts, options.loopRange);
+
+  return {
+    isRunning,
+    isComplete,
+    currentPercent,
+    markedTempo,
+    currentTempo: currentPercent !== null ? Math.round((markedTempo * currentPercent) / 100) : null,
+    reps,
+    start,
+    stop,
+    updateConfig,
+    capture
+  };
+};
@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ScoreColumn } from '../types/piano';
+import { getColumnMidiNotes, LoopBounds } from '../utils/scoreColumns';
+
+/**
+ * "Wait for me" practice mode.
+ * The cursor stays on the current column until every note of it has been struck and is held,
+ * then moves on to the next column. With a loop, the cursor wraps from the end of the range to its start.
+ */
+export const useWaitMode = (
+  columns: ScoreColumn[],
+  activeNotes: Set<number>,
+  visualTranspose: number,
+  loop: LoopBounds | null = null
+) => {
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [cursorIndex, setCursorIndex] = useState(0);
+  const [isComplete, setIsComplete] = useState(false);
+
+  // カーソル到着後に新しく打鍵された音。押しっぱなしの音で次の列へ進まないようにする
+  const struckNotesRef = useRef<Set<number>>(new Set());
+  const prevActiveNotesRef = useRef<Set<number>>(activeNotes);
+
+  const getRequiredNotes = useCallback((index: number) => {
+    const column = columns[index];
+    return column ? getColumnMidiNotes(column, visualTranspose, { requireAttack: true }) : new Set<number>();
+  }, [columns, visualTranspose]);
+
+  // タイの継続音だけの列は打鍵不要なので読み飛ばす
+  const findPlayableIndex = useCallback((from: number) => {
+    let index = Math.max(0, from);
+    while (index < columns.length && getRequiredNotes(index).size === 0) index++;
+    return index;
+  }, [columns.length, getRequiredNotes]);
+
+  const moveTo = useCallback((index: number) => {
+    struckNotesRef.current = new Set();
+    setIsComplete(false);
+    setCursorIndex(Math.min(findPlayableIndex(index), Math.max(0, columns.length - 1)));
+  }, [columns.length, findPlayableIndex]);
+
+  const start = useCallback((fromIndex: number = 0) => {
+    moveTo(fromIndex);
+    setIsEnabled(true);
+  }, [moveTo]);
+
+  const stop = useCallback(() => {
+    setIsEnabled(false);
+    setIsComplete(false);
+    struckNotesRef.current = new Set();
+  }, []);
+
+  // 楽譜が変わって列数が減った場合はカーソルを範囲内に戻す
+  useEffect(() => {
+    if (cursorIndex >= columns.length) {
+      setCursorIndex(0);
+      setIsComplete(false);
+    }
+  }, [columns.length, cursorIndex]);
+
+  useEffect(() => {
+    const prevActive = prevActiveNotesRef.current;
+    prevActiveNotesRef.current = activeNotes;
+    if (!isEnabled || isComplete) return;
+
+    activeNotes.forEach((note) => {
+      if (!prevActive.has(note)) struckNotesRef.current.add(note);
+    });
+
+    const required = getRequiredNotes(cursorIndex);
+    if (required.size === 0) return;
+    const satisfied = Array.from(required).every((note) => struckNotesRef.current.has(note) && activeNotes.has(note));
+    if (!satisfied) return;
+
+    struckNotesRef.current = new Set();
+    const nextIndex = findPlayableIndex(cursorIndex + 1);
+    if (loop && nextIndex > loop.endIndex) {
+      setCursorIndex(findPlayableIndex(loop.startIndex));
+      return;
+    }
+
+    if (nextIndex >= columns.length) {
+      setIsComplete(true);
+    } else {
+      setCursorIndex(nextIndex);
+    }
+  }, [activeNotes, isEnabled, isComplete, cursorIndex, columns.length, loop, getRequiredNotes, findPlayableIndex]);
+
+  return {
+    isEnabled,
+    cursorIndex,
+    isComplete,
+    start,
+    stop,
+    moveTo
+  };
+};
@@ -1,12 +1,43 @@
-export interface SavedScore {
+// 置き換えられる前の楽譜。本文は別ストアに保存する
+export interface ScoreVersion {
+  id: string;
+  savedAt: number; // この版を保存した日時
+  size: number;
+  contentHash?: string;
+}
+
+// ライブラリ一覧に必要な情報。MusicXML 本文は別に保存し、開くときだけ読み込む
+export interface ScoreMetadata {
   id: string;
   name: string;
-  data: string;
   timestamp: number;
+  size: number; // MusicXML 本文の文字数
+  contentHash?: string; // 本文の SHA-256。重複の検出に使う
+  updatedAt?: number; // 本文を最後に差し替えた日時
+  versions?: ScoreVersion[];
+  settingsProfile?: ScoreSettingsProfile; // この楽譜を開いたときに復元する設定
+  composer?: string;
+  lyricist?: string;
+  arranger?: string;
+  copyright?: string;
+  folder?: string; // 未指定なら未分類
+  tags?: string[];
+  favorite?: boolean; // お気に入りは楽譜選択メニューに常に表示する
+  lastOpened?: number;
+  tempoTrainer?: TempoTrainerProgress;
+}
+
+export type ScoreSortKey = 'name' | 'dateAdded' | 'lastOpened' | 'composer';
+
+export interface SavedScore extends ScoreMetadata {
+  data: string;
 }
 
 export type ClefType = 'G' | 'F' | 'C';
 export type SoundType = 'piano' | 'synth';
+export type PracticeHand = 'both' | 'right' | 'left';
+export type MetronomeSound = 'percussion' | 'oscillator';
+export type KeyboardMode = 'single' | 'split' | 'layer'; // split: 分割点より下を別の音色 / layer: 全鍵で 2 音色を重ねる
 
 export interface PianoSettings {
   showAllLines: boolean;
@@ -24,14 +55,63 @@ export interface PianoSettings {
   sustainEnabled: boolean;
   velocitySensitivity: number;
   highlightBlackKeys: boolean;
+  practiceHand: PracticeHand;
+  metronomeSound: MetronomeSound;
+  metronomeSubdivision: number; // 1拍あたりのクリック数
+  metronomeCountInBars: number;
+  metronomeFollowScoreTempo: boolean; // 楽譜のテンポ指示に従う（オフなら再生テンポ）
+  autoScroll: boolean;
+  halfPageTurn: boolean; // 現在の段が画面下半分に来たら上端へ送る
+  keyBindings: KeyBindings;
+  librarySort: ScoreSortKey;
+  midiOutputId: string; // 空なら MIDI 出力なし
+  midiThru: boolean; // 演奏中の MIDI 入力を出力にも送る
+  internalSynthEnabled: boolean; // オフなら内蔵 FluidSynth で鍵盤の音を鳴らさない
+  keyboardMode: KeyboardMode;
+  splitPoint: number; // split で本来の音色になる最低音（MIDI ノート番号）
+  primaryVolume: number; // 本来の音色のチャンネル音量 (0–1)
+  secondaryGmProgram: number; // split の左側 / layer で重ねる音色
+  secondaryTranspose: number; // transpose に加えてずらす半音数
+  secondaryVolume: number;
 }
 
+// 楽譜ごとに保存できる設定項目
+export type ScoreSettingKey = 'selectedSoundFontId' | 'gmProgram' | 'reverb' | 'transpose' | 'visualTranspose' | 'velocitySensitivity';
+
+export type ScoreSettingsProfile = Partial<Pick<PianoSettings, ScoreSettingKey>>;
+
+// 名前を付けて保存した設定の組み合わせ。キー割り当て・並び順・MIDI 出力先は含めない
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  createdAt: number;
+  settings: Partial<PianoSettings>;
+}
+
+export type ShortcutAction =
+  | 'prevColumn'
+  | 'nextColumn'
+  | 'prevMeasure'
+  | 'nextMeasure'
+  | 'playSelection'
+  | 'toggleGuideLines'
+  | 'toggleMidiMatchLines'
+  | 'toggleAllLines'
+  | 'scrollPrevSystem'
+  | 'scrollNextSystem';
+
+// 操作ごとのキー割り当て（"Shift+ArrowRight" のように修飾キーと KeyboardEvent.code を + で連結）
+export type KeyBindings = Record<ShortcutAction, string[]>;
+
 export interface NoteDetail {
   midi: number;
   x: number; // 音符列の代表 x 座標（ピクセル）
   columnKey: string; // OSMD absolute timestamp ベースの列識別子
   graphicalNote: any; // GraphicalNote
   index: number;
+  isTieContinuation: boolean; // タイで前の音から継続している音（打鍵不要）
+  timestamp: number; // 楽譜先頭からの絶対時間（全音符単位）
+  duration: number; // 発音長（全音符単位）。タイの開始音はタイ全体の長さ
 }
 
 export interface ColumnDetail {
@@ -39,6 +119,11 @@ export interface ColumnDetail {
   columnKey: string; // OSMD absolute timestamp ベースの列識別子
 }
 
+export interface TimeSignature {
+  numerator: number;
+  denominator: number;
+}
+
 export interface MeasureContext {
   measureNumber: number;
   staffId: number;
@@ -54,13 +139,124 @@ export interface MeasureContext {
   minMidi: number | null;
   maxMidi: number | null;
   octaveShift: number; // 視覚的な高さ補正（半音単位）。8vaなら-12
+  timestamp: number; // 小節頭の絶対時間（全音符単位）
+  duration: number; // 小節の長さ（全音符単位）
+  timeSignature: TimeSignature;
+  tempo: number; // 楽譜のテンポ指示（四分音符 BPM）
   columnDetails: ColumnDetail[];
   noteDetails: NoteDetail[];
 }
 
+export interface ColumnNote {
+  midi: number;
+  staffId: number;
+  isTieContinuation: boolean;
+  duration: number; // 全音符単位
+}
+
+export interface ScoreColumn {
+  id: string; // `${systemId}:${measureNumber}:${columnKey}`
+  measure: MeasureContext; // 最上段の譜表の小節
+  columnKey: string;
+  timestamp: number; // 全音符単位
+  x: number;
+  y1: number; // 全譜表をまたぐ縦方向の範囲
+  y2: number;
+  notes: ColumnNote[];
+}
+
+export interface LoopRange {
+  startMeasure: number;
+  endMeasure: number;
+}
+
+// 段単位のスクロール要求。requestId を変えるたびに1段ずつ送る
+export interface SystemScrollRequest {
+  direction: 1 | -1;
+  requestId: number;
+}
+
 export interface SelectionResult {
   measure: MeasureContext;
   midiNotes: Set<number>;
   noteX: number | null;
   columnKey: string | null;
 }
+
+export interface MidiEventPayload {
+  type: 'note-on' | 'note-off' | 'sustain';
+  payload: { midi?: number; velocity?: number; active?: boolean };
+  timestamp?: number; // performance.now() 基準の受信時刻（ミリ秒）
+}
+
+export interface RecordedMidiEvent {
+  time: number; // 録音開始からの経過時間（ミリ秒）
+  type: MidiEventPayload['type'];
+  midi?: number;
+  velocity?: number; // 0-127
+  active?: boolean;
+}
+
+export interface MidiRecording {
+  id: string;
+  scoreId: string;
+  name: string;
+  createdAt: number;
+  durationMs: number;
+  tempo: number; // SMF 書き出し時の四分音符 BPM
+  events: RecordedMidiEvent[];
+}
+
+export interface MeasureAccuracy {
+  measureNumber: number;
+  expectedNotes: number;
+  correctNotes: number;
+  wrongNotes: number; // 期待された列で弾いたが音高が違う
+  missedNotes: number; // 弾かれなかった期待音
+  extraNotes: number; // どの列にも対応しない打鍵
+  meanTimingMs: number | null; // 正の値は遅れ
+  meanAbsTimingMs: number | null;
+}
+
+export interface PerformanceReport {
+  recordingId: string;
+  recordingName: string;
+  tempo: number;
+  measures: MeasureAccuracy[];
+  expectedNotes: number;
+  correctNotes: number;
+  wrongNotes: number;
+  missedNotes: number;
+  extraNotes: number;
+  meanAbsTimingMs: number | null;
+  accuracy: number; // 0-1
+}
+
+export interface PracticeSession {
+  id: string;
+  scoreId: string;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  measures: number[]; // 練習した小節番号（昇順）
+  notesPlayed: number;
+  accuracy: number | null; // 解析したテイクの平均正答率 (0-1)
+  tempo: number | null; // 録音したテイクの最高テンポ（四分音符 BPM）
+}
+
+export interface TempoLadderConfig {
+  startPercent: number; // 楽譜のテンポ指示に対する開始テンポ (%)
+  targetPercent: number;
+  stepPercent: number; // クリーンな1回ごとに上げる量（% ポイント）
+  onFailure: 'stop' | 'step-back';
+  cleanAccuracy: number; // クリーンとみなす正答率 (0-1)
+}
+
+export interface TempoTrainerProgress {
+  range: LoopRange;
+  config: TempoLadderConfig;
+  currentPercent: number; // 次回再開するテンポ (%)
+  bestPercent: number | null;
+  bestTempo: number | null; // 到達した最高テンポ（四分音符 BPM）
+  updatedAt: number;
+}
@@ -0,0 +1,58 @@
+const DB_NAME = 'interactive-score-piano';
+const DB_VERSION = 5;
+
+export const SOUND_FONT_STORE = 'user_soundfonts';
+export const RECORDING_STORE = 'recordings';
+export const PRACTICE_SESSION_STORE = 'practice_sessions';
+export const SCORE_METADATA_STORE = 'score_metadata';
+export const SCORE_DATA_STORE = 'score_data';
+export const SCORE_VERSION_STORE = 'score_versions';
+
+export const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SOUND_FONT_STORE)) {
+        db.createObjectStore(SOUND_FONT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+        const store = db.createObjectStore(RECORDING_STORE, { keyPath: 'id' });
+        store.createIndex('scoreId', 'scoreId');
+      }
+      if (!db.objectStoreNames.contains(PRACTICE_SESSION_STORE)) {
+        const store = db.createObjectStore(PRACTICE_SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('scoreId', 'scoreId');
+      }
+      // 一覧表示用のメタデータと、大きな MusicXML 本文を別ストアに分ける
+      if (!db.objectStoreNames.contains(SCORE_METADATA_STORE)) {
+        const store = db.createObjectStore(SCORE_METADATA_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(SCORE_DATA_STORE)) {
+        db.createObjectStore(SCORE_DATA_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SCORE_VERSION_STORE)) {
+        const store = db.createObjectStore(SCORE_VERSION_STORE, { keyPath: 'id' });
+        store.createIndex('scoreId', 'scoreId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+  });
+
+export const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+// 容量超過などは個々のリクエストではなくコミット時にトランザクションの中断として通知される
+export const waitForTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
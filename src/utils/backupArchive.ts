@@ -0,0 +1,212 @@
+import { PianoSettings, SavedScore, ScoreMetadata } from '../types/piano';
+import { serializeSettings } from './settingsSchema';
+import { createZipArchive, readZipEntries, readZipEntry, ZipInputFile } from './zipArchive';
+import { importScores, listScoreMetadata, listScores, listScoreVersions, StoredScoreVersion } from './scoreStorage';
+import { getUserSoundFontData, listUserSoundFonts, restoreUserSoundFonts, UserSoundFontMeta } from './soundFontStorage';
+
+const BACKUP_FORMAT = 'interactive-score-piano-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+const SETTINGS_PATH = 'settings.json';
+
+interface BackupManifest {
+  format: string;
+  version: number;
+  createdAt: number;
+  scores: ScoreMetadata[];
+  soundFonts: UserSoundFontMeta[];
+}
+
+export interface BackupSoundFont {
+  meta: UserSoundFontMeta;
+  data: ArrayBuffer;
+}
+
+export interface BackupContents {
+  createdAt: number;
+  scores: SavedScore[];
+  versions: StoredScoreVersion[]; // 楽譜の過去の版
+  soundFonts: BackupSoundFont[];
+  settings: unknown; // 読み込む側で移行・検証する
+}
+
+export type BackupImportMode = 'merge' | 'replace';
+export type BackupConflictPolicy = 'keep-both' | 'overwrite' | 'skip';
+
+export interface BackupConflicts {
+  scores: ScoreMetadata[]; // 同じ ID の楽譜が既にあるもの（バックアップ側）
+  soundFonts: UserSoundFontMeta[];
+}
+
+export interface BackupImportResult {
+  scoresAdded: number;
+  scoresReplaced: number;
+  scoresSkipped: number;
+  soundFontsAdded: number;
+  soundFontsReplaced: number;
+  soundFontsSkipped: number;
+}
+
+const getScorePath = (id: string) => `scores/${id}.musicxml`;
+const getVersionPath = (id: string) => `versions/${id}.musicxml`;
+const getSoundFontPath = (id: string) => `soundfonts/${id}.sf2`;
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Packs the score library, the settings and the user SoundFonts into a single ZIP archive.
+ */
+export const createBackupArchive = async (settings: PianoSettings): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const scores = await listScores();
+  const versions = await listScoreVersions();
+  const soundFonts = await listUserSoundFonts();
+  const files: ZipInputFile[] = [];
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    scores: scores.map(({ data, ...metadata }) => metadata),
+    soundFonts
+  };
+  files.push({ name: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  files.push({ name: SETTINGS_PATH, data: encoder.encode(serializeSettings(settings)) });
+  scores.forEach((score) => files.push({ name: getScorePath(score.id), data: encoder.encode(score.data) }));
+  versions.forEach((version) => files.push({ name: getVersionPath(version.id), data: encoder.encode(version.data) }));
+
+  for (const font of soundFonts) {
+    const data = await getUserSoundFontData(font.id);
+    if (data) files.push({ name: getSoundFontPath(font.id), data: new Uint8Array(data) });
+  }
+
+  return createZipArchive(files);
+};
+
+/**
+ * Reads a backup archive created by createBackupArchive. Throws when the file is not a backup of this app.
+ */
+export const readBackupArchive = async (buffer: ArrayBuffer): Promise<BackupContents> => {
+  const entries = readZipEntries(buffer);
+  const decoder = new TextDecoder();
+  const readText = async (path: string) => {
+    const entry = entries.find((candidate) => candidate.name === path);
+    return entry ? decoder.decode(await readZipEntry(buffer, entry)) : null;
+  };
+
+  const manifestText = await readText(MANIFEST_PATH);
+  const manifest = manifestText ? JSON.parse(manifestText) as BackupManifest : null;
+  if (!manifest || manifest.format !== BACKUP_FORMAT) throw new Error('This file is not a backup of this app.');
+  if (manifest.version > BACKUP_VERSION) throw new Error('This backup was created by a newer version of the app.');
+
+  const scores: SavedScore[] = [];
+  const versions: StoredScoreVersion[] = [];
+  for (const metadata of manifest.scores) {
+    const data = await readText(getScorePath(metadata.id));
+    if (data === null) continue;
+    // 本文の無い版は履歴から外す
+    const storedVersions: StoredScoreVersion[] = [];
+    for (const version of metadata.versions ?? []) {
+      const versionData = await readText(getVersionPath(version.id));
+      if (versionData !== null) storedVersions.push({ id: version.id, scoreId: metadata.id, data: versionData });
+    }
+    const keptIds = new Set(storedVersions.map((version) => version.id));
+    scores.push({ ...metadata, versions: metadata.versions?.filter((version) => keptIds.has(version.id)), data });
+    versions.push(...storedVersions);
+  }
+
+  const soundFonts: BackupSoundFont[] = [];
+  for (const meta of manifest.soundFonts) {
+    const entry = entries.find((candidate) => candidate.name === getSoundFontPath(meta.id));
+    if (!entry) continue;
+    const bytes = await readZipEntry(buffer, entry);
+    soundFonts.push({ meta, data: bytes.slice().buffer });
+  }
+
+  const settingsText = await readText(SETTINGS_PATH);
+  return {
+    createdAt: manifest.createdAt,
+    scores,
+    versions,
+    soundFonts,
+    settings: settingsText ? JSON.parse(settingsText) : null
+  };
+};
+
+export const findBackupConflicts = async (contents: BackupContents): Promise<BackupConflicts> => {
+  const existingScoreIds = new Set((await listScoreMetadata()).map((score) => score.id));
+  const existingFontIds = new Set((await listUserSoundFonts()).map((font) => font.id));
+  return {
+    scores: contents.scores.filter((score) => existingScoreIds.has(score.id)),
+    soundFonts: contents.soundFonts.map((font) => font.meta).filter((meta) => existingFontIds.has(meta.id))
+  };
+};
+
+/**
+ * Writes the scores and SoundFonts of a backup into storage.
+ * In replace mode the current library and SoundFonts are replaced; in merge mode
+ * items whose ID already exists are handled according to the conflict policy.
+ * The scores and the SoundFonts are each written in one transaction, so a failed write keeps what was there.
+ * Settings are not written here; the caller applies contents.settings.
+ */
+export const importBackup = async (
+  contents: BackupContents,
+  mode: BackupImportMode,
+  onConflict: BackupConflictPolicy
+): Promise<BackupImportResult> => {
+  const result: BackupImportResult = {
+    scoresAdded: 0, scoresReplaced: 0, scoresSkipped: 0, soundFontsAdded: 0, soundFontsReplaced: 0, soundFontsSkipped: 0
+  };
+
+  const conflicts = mode === 'merge' ? await findBackupConflicts(contents) : { scores: [], soundFonts: [] };
+  const conflictScoreIds = new Set(conflicts.scores.map((score) => score.id));
+  const conflictFontIds = new Set(conflicts.soundFonts.map((font) => font.id));
+
+  const scores: SavedScore[] = [];
+  const versions: StoredScoreVersion[] = [];
+  const getVersionsOf = (scoreId: string) => contents.versions.filter((version) => version.scoreId === scoreId);
+  contents.scores.forEach((score) => {
+    if (!conflictScoreIds.has(score.id) || onConflict === 'overwrite') {
+      scores.push(score);
+      versions.push(...getVersionsOf(score.id));
+      if (conflictScoreIds.has(score.id)) result.scoresReplaced++;
+      else result.scoresAdded++;
+    } else if (onConflict === 'keep-both') {
+      // 複製した楽譜の履歴は既存の版と ID が重ならないよう振り直す
+      const id = createId();
+      const versionIds = new Map(getVersionsOf(score.id).map((version) => [version.id, createId()]));
+      scores.push({
+        ...score,
+        id,
+        name: `${score.name} (imported)`,
+        versions: score.versions?.map((version) => ({ ...version, id: versionIds.get(version.id) ?? version.id }))
+      });
+      versions.push(...getVersionsOf(score.id).map((version) => ({ ...version, id: versionIds.get(version.id)!, scoreId: id })));
+      result.scoresAdded++;
+    } else {
+      result.scoresSkipped++;
+    }
+  });
+  // 上書きする楽譜は古い履歴を同じトランザクションで消す
+  const replacedIds = onConflict === 'overwrite' ? conflicts.scores.map((score) => score.id) : [];
+  await importScores(scores, versions, mode === 'replace', replacedIds);
+
+  const soundFonts: BackupSoundFont[] = [];
+  contents.soundFonts.forEach((font) => {
+    if (!conflictFontIds.has(font.meta.id)) {
+      soundFonts.push(font);
+      result.soundFontsAdded++;
+    } else if (onConflict === 'overwrite') {
+      soundFonts.push(font);
+      result.soundFontsReplaced++;
+    } else if (onConflict === 'keep-both') {
+      soundFonts.push({ meta: { ...font.meta, id: `user-${Date.now()}-${createId()}`, name: `${font.meta.name} (imported)` }, data: font.data });
+      result.soundFontsAdded++;
+    } else {
+      result.soundFontsSkipped++;
+    }
+  });
+  await restoreUserSoundFonts(soundFonts, mode === 'replace');
+
+  return result;
+};
@@ -0,0 +1,20 @@
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// crypto.subtle は安全なコンテキスト (https / localhost) でしか使えないため、その場合は FNV-1a で代用する
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv1a-${(hash >>> 0).toString(16).padStart(8, '0')}-${text.length}`;
+};
+
+/**
+ * Returns a hex digest of the text, used to detect identical score uploads.
+ */
+export const hashText = async (text: string): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fnv1a(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+};
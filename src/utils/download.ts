@@ -0,0 +1,14 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// ファイル名に使えない文字を置き換える
+export const toSafeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'untitled';
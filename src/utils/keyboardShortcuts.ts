@@ -0,0 +1,89 @@
+import { KeyBindings, ShortcutAction } from '../types/piano';
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'prevColumn', label: 'Previous Column' },
+  { action: 'nextColumn', label: 'Next Column' },
+  { action: 'prevMeasure', label: 'Previous Measure' },
+  { action: 'nextMeasure', label: 'Next Measure' },
+  { action: 'playSelection', label: 'Play Selected Column' },
+  { action: 'toggleGuideLines', label: 'Toggle Horz Guides' },
+  { action: 'toggleMidiMatchLines', label: 'Toggle Vert Guides' },
+  { action: 'toggleAllLines', label: 'Toggle All Lines' },
+  { action: 'scrollPrevSystem', label: 'Scroll to Previous System' },
+  { action: 'scrollNextSystem', label: 'Scroll to Next System' }
+];
+
+// ページめくりペダルの多くは PageUp / PageDown か矢印キーを送る
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  prevColumn: ['ArrowLeft', 'PageUp'],
+  nextColumn: ['ArrowRight', 'PageDown'],
+  prevMeasure: ['Shift+ArrowLeft'],
+  nextMeasure: ['Shift+ArrowRight'],
+  playSelection: ['Space'],
+  toggleGuideLines: ['KeyG'],
+  toggleMidiMatchLines: ['KeyV'],
+  toggleAllLines: ['KeyA'],
+  scrollPrevSystem: ['ArrowUp'],
+  scrollNextSystem: ['ArrowDown']
+};
+
+// 押し続けたときに繰り返してよい操作
+export const REPEATABLE_SHORTCUT_ACTIONS: ShortcutAction[] = ['prevColumn', 'nextColumn', 'prevMeasure', 'nextMeasure'];
+
+// 入力欄やダイアログ・メニュー内のキー操作はそちらに任せる
+export const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  return !!target.closest('[role="dialog"], [role="presentation"], [role="menu"], [role="listbox"]');
+};
+
+const MODIFIER_CODES = ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+/**
+ * Converts a keydown event into a binding string such as "Shift+ArrowRight".
+ * Returns null for a lone modifier key.
+ */
+export const getKeyCombo = (event: KeyboardEvent): string | null => {
+  const code = event.code || event.key;
+  if (!code || MODIFIER_CODES.includes(code)) return null;
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  if (event.metaKey) parts.push('Meta');
+  parts.push(code);
+  return parts.join('+');
+};
+
+const ARROW_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓'
+};
+
+export const formatKeyCombo = (combo: string): string =>
+  combo.split('+').map((part) => {
+    if (ARROW_LABELS[part]) return ARROW_LABELS[part];
+    if (/^Key[A-Z]$/.test(part)) return part.slice(3);
+    if (/^Digit\d$/.test(part)) return part.slice(5);
+    return part;
+  }).join(' + ');
+
+export const findShortcutAction = (bindings: KeyBindings, combo: string): ShortcutAction | null => {
+  const entry = SHORTCUT_ACTIONS.find(({ action }) => bindings[action]?.includes(combo));
+  return entry ? entry.action : null;
+};
+
+/**
+ * Assigns a combo to an action. The combo is removed from any other action so that one key triggers one action.
+ */
+export const assignKeyCombo = (bindings: KeyBindings, action: ShortcutAction, combo: string): KeyBindings => {
+  const next = { ...bindings };
+  SHORTCUT_ACTIONS.forEach(({ action: other }) => {
+    if (other !== action && next[other].includes(combo)) next[other] = next[other].filter((item) => item !== combo);
+  });
+  if (!next[action].includes(combo)) next[action] = [...next[action], combo];
+  return next;
+};
@@ -0,0 +1,46 @@
+import { KeyboardMode, PianoSettings } from '../types/piano';
+
+export const KEYBOARD_MODE_OPTIONS: { key: KeyboardMode; label: string }[] = [
+  { key: 'single', label: 'Single' },
+  { key: 'split', label: 'Split' },
+  { key: 'layer', label: 'Layer' }
+];
+
+// 本来の音色と、split の左側 / layer で重ねる音色を別チャンネルで鳴らす
+export const PRIMARY_CHANNEL = 0;
+export const SECONDARY_CHANNEL = 1;
+export const ZONE_CHANNELS = [PRIMARY_CHANNEL, SECONDARY_CHANNEL];
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export interface ZoneNote {
+  channel: number;
+  midi: number; // 移調後のノート番号
+}
+
+type ZoneSettings = Pick<PianoSettings, 'keyboardMode' | 'splitPoint' | 'transpose' | 'secondaryTranspose'>;
+
+const clampMidi = (midi: number) => Math.max(0, Math.min(127, midi));
+
+/**
+ * Returns the channel and transposed note for each zone that a key sounds in.
+ * The split point is compared with the key as played, before transposing. The secondary zone's
+ * transpose is added on top of the global transpose.
+ */
+export const getZoneNotes = (midi: number, settings: ZoneSettings): ZoneNote[] => {
+  const primary = { channel: PRIMARY_CHANNEL, midi: clampMidi(midi + settings.transpose) };
+  const secondary = { channel: SECONDARY_CHANNEL, midi: clampMidi(midi + settings.transpose + settings.secondaryTranspose) };
+  switch (settings.keyboardMode) {
+    case 'split':
+      return [midi < settings.splitPoint ? secondary : primary];
+    case 'layer':
+      return [primary, secondary];
+    default:
+      return [primary];
+  }
+};
+
+// 0–1 の音量を MIDI のチャンネルボリューム (CC7) に変換する
+export const toChannelVolume = (volume: number) => Math.round(Math.max(0, Math.min(1, volume)) * 127);
+
+export const formatNoteName = (midi: number) => `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
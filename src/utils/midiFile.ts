@@ -0,0 +1,299 @@
+import { MidiRecording, RecordedMidiEvent } from '../types/piano';
+
+export type MidiFileFormat = 0 | 1;
+
+interface TrackEvent {
+  tick: number;
+  data: number[];
+}
+
+const TICKS_PER_QUARTER = 480;
+
+const writeUint32 = (value: number, out: number[]) => {
+  out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+};
+
+const writeUint16 = (value: number, out: number[]) => {
+  out.push((value >>> 8) & 0xff, value & 0xff);
+};
+
+// Variable-length quantity (7 bits per byte, MSB = continuation)
+const writeVarLen = (value: number, out: number[]) => {
+  const bytes = [value & 0x7f];
+  let rest = value >>> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>>= 7;
+  }
+  out.push(...bytes);
+};
+
+const textMeta = (type: number, text: string): number[] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  const out = [0xff, type];
+  writeVarLen(bytes.length, out);
+  return [...out, ...bytes];
+};
+
+const tempoMeta = (bpm: number): number[] => {
+  const microsecondsPerQuarter = Math.round(60000000 / bpm);
+  return [0xff, 0x51, 0x03, (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff];
+};
+
+const encodeTrack = (events: TrackEvent[]): number[] => {
+  const body: number[] = [];
+  let lastTick = 0;
+  [...events].sort((a, b) => a.tick - b.tick).forEach((event) => {
+    writeVarLen(event.tick - lastTick, body);
+    body.push(...event.data);
+    lastTick = event.tick;
+  });
+  writeVarLen(0, body);
+  body.push(0xff, 0x2f, 0x00);
+
+  const chunk = [0x4d, 0x54, 0x72, 0x6b]; // "MTrk"
+  writeUint32(body.length, chunk);
+  return [...chunk, ...body];
+};
+
+const toChannelEvents = (events: RecordedMidiEvent[], durationMs: number, msToTick: (ms: number) => number): TrackEvent[] => {
+  const trackEvents: TrackEvent[] = [];
+  const soundingNotes = new Set<number>();
+  let isSustainOn = false;
+
+  [...events].sort((a, b) => a.time - b.time).forEach((event) => {
+    const tick = msToTick(event.time);
+    if (event.type === 'sustain') {
+      isSustainOn = !!event.active;
+      trackEvents.push({ tick, data: [0xb0, 64, isSustainOn ? 127 : 0] });
+      return;
+    }
+    if (typeof event.midi !== 'number') return;
+
+    if (event.type === 'note-on') {
+      soundingNotes.add(event.midi);
+      trackEvents.push({ tick, data: [0x90, event.midi, Math.max(1, Math.min(127, event.velocity ?? 100))] });
+    } else {
+      soundingNotes.delete(event.midi);
+      trackEvents.push({ tick, data: [0x80, event.midi, 0] });
+    }
+  });
+
+  // 録音停止時に押されたままの鍵盤・ペダルを閉じる
+  const endTick = msToTick(durationMs);
+  soundingNotes.forEach((midi) => trackEvents.push({ tick: endTick, data: [0x80, midi, 0] }));
+  if (isSustainOn) trackEvents.push({ tick: endTick, data: [0xb0, 64, 0] });
+
+  return trackEvents;
+};
+
+/**
+ * Encodes a recorded performance as a Standard MIDI File.
+ * Format 0 puts everything into a single track; format 1 uses a conductor track plus a piano track.
+ */
+export const encodeMidiFile = (recording: MidiRecording, format: MidiFileFormat): Uint8Array<ArrayBuffer> => {
+  const msPerQuarter = 60000 / recording.tempo;
+  const msToTick = (ms: number) => Math.max(0, Math.round((ms / msPerQuarter) * TICKS_PER_QUARTER));
+  const channelEvents = toChannelEvents(recording.events, recording.durationMs, msToTick);
+  const conductorEvents: TrackEvent[] = [
+    { tick: 0, data: textMeta(0x03, recording.name) },
+    { tick: 0, data: tempoMeta(recording.tempo) }
+  ];
+
+  const tracks = format === 0
+    ? [encodeTrack([...conductorEvents, ...channelEvents])]
+    : [encodeTrack(conductorEvents), encodeTrack([{ tick: 0, data: textMeta(0x03, 'Piano') }, ...channelEvents])];
+
+  const header = [0x4d, 0x54, 0x68, 0x64]; // "MThd"
+  writeUint32(6, header);
+  writeUint16(format, header);
+  writeUint16(tracks.length, header);
+  writeUint16(TICKS_PER_QUARTER, header);
+
+  return new Uint8Array([...header, ...tracks.flat()]);
+};
+
+export interface ParsedMidiNote {
+  tick: number;
+  durationTicks: number;
+  midi: number;
+  velocity: number;
+  channel: number;
+}
+
+export interface ParsedTempo {
+  tick: number;
+  bpm: number;
+}
+
+export interface ParsedTimeSignature {
+  tick: number;
+  numerator: number;
+  denominator: number;
+}
+
+export interface ParsedKeySignature {
+  tick: number;
+  fifths: number;
+  mode: 'major' | 'minor';
+}
+
+export interface ParsedMidiFile {
+  format: number;
+  ticksPerQuarter: number;
+  title: string | null;
+  notes: ParsedMidiNote[];
+  tempos: ParsedTempo[];
+  timeSignatures: ParsedTimeSignature[];
+  keySignatures: ParsedKeySignature[];
+}
+
+const createMidiReader = (view: DataView) => {
+  let offset = 0;
+
+  const uint8 = () => view.getUint8(offset++);
+
+  return {
+    get position() { return offset; },
+    get length() { return view.byteLength; },
+    uint8,
+    uint16: () => {
+      const value = view.getUint16(offset);
+      offset += 2;
+      return value;
+    },
+    uint32: () => {
+      const value = view.getUint32(offset);
+      offset += 4;
+      return value;
+    },
+    ascii: (length: number) => {
+      let text = '';
+      for (let i = 0; i < length; i++) text += String.fromCharCode(uint8());
+      return text;
+    },
+    bytes: (length: number) => {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, length);
+      offset += length;
+      return bytes;
+    },
+    varLen: () => {
+      let value = 0;
+      for (let i = 0; i < 4; i++) {
+        const byte = uint8();
+        value = (value << 7) | (byte & 0x7f);
+        if ((byte & 0x80) === 0) break;
+      }
+      return value;
+    },
+    skip: (length: number) => {
+      offset += length;
+    }
+  };
+};
+
+/**
+ * Parses a Standard MIDI File (format 0/1) into absolute-tick notes and meta events.
+ * Percussion (channel 10) is ignored because it cannot be shown on a piano staff.
+ */
+export const decodeMidiFile = (buffer: ArrayBuffer): ParsedMidiFile => {
+  const reader = createMidiReader(new DataView(buffer));
+  if (reader.ascii(4) !== 'MThd') throw new Error('Not a Standard MIDI File');
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.skip(headerLength - 6);
+  if (division & 0x8000) throw new Error('SMPTE time division is not supported');
+
+  const result: ParsedMidiFile = {
+    format,
+    ticksPerQuarter: division,
+    title: null,
+    notes: [],
+    tempos: [],
+    timeSignatures: [],
+    keySignatures: []
+  };
+
+  for (let track = 0; track < trackCount && reader.position < reader.length; track++) {
+    const chunkType = reader.ascii(4);
+    const chunkLength = reader.uint32();
+    const chunkEnd = reader.position + chunkLength;
+    if (chunkType !== 'MTrk') {
+      reader.skip(chunkLength);
+      continue;
+    }
+
+    const openNotes = new Map<string, { tick: number; velocity: number }>();
+    let tick = 0;
+    let runningStatus = 0;
+
+    while (reader.position < chunkEnd) {
+      tick += reader.varLen();
+      let status = reader.uint8();
+
+      if (status === 0xff) {
+        const type = reader.uint8();
+        const length = reader.varLen();
+        const data = reader.bytes(length);
+        if (type === 0x03 && track === 0 && result.title === null && length > 0) {
+          result.title = new TextDecoder().decode(data).trim() || null;
+        } else if (type === 0x51 && length === 3) {
+          const microsecondsPerQuarter = (data[0] << 16) | (data[1] << 8) | data[2];
+          result.tempos.push({ tick, bpm: 60000000 / microsecondsPerQuarter });
+        } else if (type === 0x58 && length >= 2) {
+          result.timeSignatures.push({ tick, numerator: data[0], denominator: Math.pow(2, data[1]) });
+        } else if (type === 0x59 && length === 2) {
+          const fifths = data[0] > 127 ? data[0] - 256 : data[0];
+          result.keySignatures.push({ tick, fifths, mode: data[1] === 1 ? 'minor' : 'major' });
+        } else if (type === 0x2f) {
+          break;
+        }
+        continue;
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        reader.skip(reader.varLen());
+        continue;
+      }
+
+      // Running status: データバイトから始まる場合は直前のステータスを使う
+      let firstData: number;
+      if (status < 0x80) {
+        firstData = status;
+        status = runningStatus;
+      } else {
+        runningStatus = status;
+        firstData = -1;
+      }
+
+      const command = status & 0xf0;
+      const channel = status & 0x0f;
+      const hasTwoDataBytes = command !== 0xc0 && command !== 0xd0;
+      const data1 = firstData >= 0 ? firstData : reader.uint8();
+      const data2 = hasTwoDataBytes ? reader.uint8() : 0;
+
+      if (channel === 9) continue;
+      const key = `${channel}:${data1}`;
+
+      if (command === 0x90 && data2 > 0) {
+        openNotes.set(key, { tick, velocity: data2 });
+      } else if (command === 0x80 || (command === 0x90 && data2 === 0)) {
+        const open = openNotes.get(key);
+        if (open) {
+          result.notes.push({ tick: open.tick, durationTicks: tick - open.tick, midi: data1, velocity: open.velocity, channel });
+          openNotes.delete(key);
+        }
+      }
+    }
+
+    reader.skip(chunkEnd - reader.position);
+  }
+
+  result.notes.sort((a, b) => a.tick - b.tick || a.midi - b.midi);
+  result.tempos.sort((a, b) => a.tick - b.tick);
+  result.timeSignatures.sort((a, b) => a.tick - b.tick);
+  result.keySignatures.sort((a, b) => a.tick - b.tick);
+  return result;
+};
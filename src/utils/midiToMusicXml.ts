@@ -0,0 +1,246 @@
+import { ParsedMidiFile } from './midiFile';
+
+interface QuantizedNote {
+  start: number; // division 単位
+  end: number;
+  midi: number;
+}
+
+interface StaffEvent {
+  start: number;
+  duration: number;
+  pitches: number[]; // 空配列は休符
+}
+
+interface MeasureLayout {
+  start: number;
+  length: number;
+  numerator: number;
+  denominator: number;
+  fifths: number;
+  mode: 'major' | 'minor';
+}
+
+const DIVISIONS = 4; // 四分音符あたりの division 数（16分音符グリッドで量子化）
+const SPLIT_POINT = 60; // 中央ド以上を右手（ト音記号）の譜表へ
+const STAFF_VOICES = [1, 5];
+
+const NOTE_TYPES: { units: number; type: string; dots: number }[] = [
+  { units: 16, type: 'whole', dots: 0 },
+  { units: 12, type: 'half', dots: 1 },
+  { units: 8, type: 'half', dots: 0 },
+  { units: 6, type: 'quarter', dots: 1 },
+  { units: 4, type: 'quarter', dots: 0 },
+  { units: 3, type: 'eighth', dots: 1 },
+  { units: 2, type: 'eighth', dots: 0 },
+  { units: 1, type: '16th', dots: 0 },
+];
+
+const SHARP_SPELLING: [string, number][] = [
+  ['C', 0], ['C', 1], ['D', 0], ['D', 1], ['E', 0], ['F', 0], ['F', 1], ['G', 0], ['G', 1], ['A', 0], ['A', 1], ['B', 0],
+];
+const FLAT_SPELLING: [string, number][] = [
+  ['C', 0], ['D', -1], ['D', 0], ['E', -1], ['E', 0], ['F', 0], ['G', -1], ['G', 0], ['A', -1], ['A', 0], ['B', -1], ['B', 0],
+];
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const lastAtOrBefore = <T extends { tick: number }>(items: T[], tick: number, toUnits: (tick: number) => number): T | undefined =>
+  items.filter((item) => toUnits(item.tick) <= tick).pop();
+
+// 和音ごとにまとめ、次の打鍵までで切ることで1声部の流れにする
+const buildStaffEvents = (notes: QuantizedNote[], totalLength: number): StaffEvent[] => {
+  const groups = new Map<number, QuantizedNote[]>();
+  notes.forEach((note) => {
+    const group = groups.get(note.start) ?? [];
+    group.push(note);
+    groups.set(note.start, group);
+  });
+
+  const starts = Array.from(groups.keys()).sort((a, b) => a - b);
+  const events: StaffEvent[] = [];
+  let cursor = 0;
+
+  starts.forEach((start, index) => {
+    if (start > cursor) events.push({ start: cursor, duration: start - cursor, pitches: [] });
+    const group = groups.get(start)!;
+    const nextStart = starts[index + 1] ?? Infinity;
+    const end = Math.min(nextStart, Math.max(...group.map((note) => note.end)));
+    const pitches = Array.from(new Set(group.map((note) => note.midi))).sort((a, b) => a - b);
+    events.push({ start, duration: Math.max(1, end - start), pitches });
+    cursor = start + Math.max(1, end - start);
+  });
+
+  if (cursor < totalLength) events.push({ start: cursor, duration: totalLength - cursor, pitches: [] });
+  return events;
+};
+
+const splitDuration = (units: number): { units: number; type: string; dots: number }[] => {
+  const parts: { units: number; type: string; dots: number }[] = [];
+  let rest = units;
+  while (rest > 0) {
+    const part = NOTE_TYPES.find((candidate) => candidate.units <= rest) ?? NOTE_TYPES[NOTE_TYPES.length - 1];
+    parts.push(part);
+    rest -= part.units;
+  }
+  return parts;
+};
+
+const pitchXml = (midi: number, useFlats: boolean) => {
+  const [step, alter] = (useFlats ? FLAT_SPELLING : SHARP_SPELLING)[midi % 12];
+  const octave = Math.floor(midi / 12) - 1;
+  return `<pitch><step>${step}</step>${alter !== 0 ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>`;
+};
+
+const renderSegment = (
+  pitches: number[],
+  units: number,
+  staffIndex: number,
+  tieFromPrevious: boolean,
+  tieToNext: boolean,
+  useFlats: boolean
+): string[] => {
+  const parts = splitDuration(units);
+  const xml: string[] = [];
+
+  parts.forEach((part, partIndex) => {
+    const tieStop = tieFromPrevious || partIndex > 0;
+    const tieStart = tieToNext || partIndex < parts.length - 1;
+    const common = `<duration>${part.units}</duration>`;
+    const tail = `<voice>${STAFF_VOICES[staffIndex]}</voice><type>${part.type}</type>${'<dot/>'.repeat(part.dots)}<staff>${staffIndex + 1}</staff>`;
+
+    if (pitches.length === 0) {
+      xml.push(`<note><rest/>${common}${tail}</note>`);
+      return;
+    }
+
+    pitches.forEach((midi, pitchIndex) => {
+      const ties = `${tieStop ? '<tie type="stop"/>' : ''}${tieStart ? '<tie type="start"/>' : ''}`;
+      const tied = `${tieStop ? '<tied type="stop"/>' : ''}${tieStart ? '<tied type="start"/>' : ''}`;
+      xml.push(
+        `<note>${pitchIndex > 0 ? '<chord/>' : ''}${pitchXml(midi, useFlats)}${common}${ties}${tail}` +
+        `${tied ? `<notations>${tied}</notations>` : ''}</note>`
+      );
+    });
+  });
+
+  return xml;
+};
+
+const renderStaffMeasure = (events: StaffEvent[], measure: MeasureLayout, staffIndex: number): string[] => {
+  const measureEnd = measure.start + measure.length;
+  const segments = events.filter((event) => event.start < measureEnd && event.start + event.duration > measure.start);
+
+  if (segments.every((event) => event.pitches.length === 0)) {
+    return [`<note><rest measure="yes"/><duration>${measure.length}</duration><voice>${STAFF_VOICES[staffIndex]}</voice><staff>${staffIndex + 1}</staff></note>`];
+  }
+
+  return segments.flatMap((event) => {
+    const start = Math.max(event.start, measure.start);
+    const end = Math.min(event.start + event.duration, measureEnd);
+    return renderSegment(
+      event.pitches,
+      end - start,
+      staffIndex,
+      event.pitches.length > 0 && event.start < measure.start,
+      event.pitches.length > 0 && event.start + event.duration > measureEnd,
+      measure.fifths < 0
+    );
+  });
+};
+
+/**
+ * Converts a parsed MIDI file into a two-staff piano MusicXML document.
+ * Notes are quantized to sixteenths and split at middle C; tempo and time signature meta events are kept.
+ */
+export const convertMidiToMusicXml = (midi: ParsedMidiFile, fallbackTitle: string): string => {
+  const toUnits = (tick: number) => Math.round((tick * DIVISIONS) / midi.ticksPerQuarter);
+  const notes: QuantizedNote[] = midi.notes.map((note) => {
+    const start = toUnits(note.tick);
+    return { start, end: Math.max(start + 1, toUnits(note.tick + note.durationTicks)), midi: note.midi };
+  });
+  const lastUnit = notes.reduce((max, note) => Math.max(max, note.end), 0);
+
+  const measures: MeasureLayout[] = [];
+  let measureStart = 0;
+  while (measureStart < lastUnit || measures.length === 0) {
+    const timeSignature = lastAtOrBefore(midi.timeSignatures, measureStart, toUnits) ?? { numerator: 4, denominator: 4 };
+    const keySignature = lastAtOrBefore(midi.keySignatures, measureStart, toUnits) ?? { fifths: 0, mode: 'major' as const };
+    const length = Math.max(1, Math.round((timeSignature.numerator * DIVISIONS * 4) / timeSignature.denominator));
+    measures.push({
+      start: measureStart,
+      length,
+      numerator: timeSignature.numerator,
+      denominator: timeSignature.denominator,
+      fifths: keySignature.fifths,
+      mode: keySignature.mode
+    });
+    measureStart += length;
+  }
+
+  const totalLength = measureStart;
+  const staffEvents = [
+    buildStaffEvents(notes.filter((note) => note.midi >= SPLIT_POINT), totalLength),
+    buildStaffEvents(notes.filter((note) => note.midi < SPLIT_POINT), totalLength),
+  ];
+
+  let lastTempo: number | null = null;
+  const measureXml = measures.map((measure, index) => {
+    const previous = measures[index - 1];
+    const parts: string[] = [`<measure number="${index + 1}">`];
+
+    const attributes: string[] = [];
+    if (!previous) attributes.push(`<divisions>${DIVISIONS}</divisions>`);
+    if (!previous || previous.fifths !== measure.fifths || previous.mode !== measure.mode) {
+      attributes.push(`<key><fifths>${measure.fifths}</fifths><mode>${measure.mode}</mode></key>`);
+    }
+    if (!previous || previous.numerator !== measure.numerator || previous.denominator !== measure.denominator) {
+      attributes.push(`<time><beats>${measure.numerator}</beats><beat-type>${measure.denominator}</beat-type></time>`);
+    }
+    if (!previous) {
+      attributes.push('<staves>2</staves>');
+      attributes.push('<clef number="1"><sign>G</sign><line>2</line></clef>');
+      attributes.push('<clef number="2"><sign>F</sign><line>4</line></clef>');
+    }
+    if (attributes.length > 0) parts.push(`<attributes>${attributes.join('')}</attributes>`);
+
+    midi.tempos
+      .filter((tempo) => {
+        const unit = toUnits(tempo.tick);
+        return unit >= measure.start && unit < measure.start + measure.length;
+      })
+      .forEach((tempo) => {
+        const bpm = Math.round(tempo.bpm);
+        if (bpm === lastTempo) return;
+        lastTempo = bpm;
+        const offset = toUnits(tempo.tick) - measure.start;
+        parts.push(
+          '<direction placement="above"><direction-type><metronome>' +
+          `<beat-unit>quarter</beat-unit><per-minute>${bpm}</per-minute></metronome></direction-type>` +
+          `${offset > 0 ? `<offset>${offset}</offset>` : ''}<staff>1</staff><sound tempo="${bpm}"/></direction>`
+        );
+      });
+
+    parts.push(...renderStaffMeasure(staffEvents[0], measure, 0));
+    parts.push(`<backup><duration>${measure.length}</duration></backup>`);
+    parts.push(...renderStaffMeasure(staffEvents[1], measure, 1));
+    parts.push('</measure>');
+    return parts.join('\n');
+  });
+
+  const title = escapeXml(midi.title ?? fallbackTitle);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 3.1 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+<score-partwise version="3.1">
+  <work><work-title>${title}</work-title></work>
+  <identification><encoding><software>Interactive Score Piano (MIDI import)</software></encoding></identification>
+  <part-list>
+    <score-part id="P1"><part-name>Piano</part-name></score-part>
+  </part-list>
+  <part id="P1">
+${measureXml.join('\n')}
+  </part>
+</score-partwise>
+`;
+};
@@ -0,0 +1,88 @@
+import { readZipEntries, readZipEntry, ZipEntry } from './zipArchive';
+
+export interface MusicXmlMetadata {
+  title: string | null;
+  composer: string | null;
+  lyricist: string | null;
+  arranger: string | null;
+  copyright: string | null;
+}
+
+const MUSICXML_MEDIA_TYPE = 'application/vnd.recordare.musicxml+xml';
+const CONTAINER_PATH = 'META-INF/container.xml';
+
+// MusicXML は UTF-8 が基本だが、UTF-16 の BOM 付きファイルも受け付ける
+const decodeXml = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+};
+
+const parseXml = (xml: string): Document | null => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+const findRootFilePath = (containerXml: string): string | null => {
+  const doc = parseXml(containerXml);
+  if (!doc) return null;
+  const rootFiles = Array.from(doc.getElementsByTagName('rootfile'));
+  // media-type が省略されている場合は MusicXML とみなす（仕様上の既定値）
+  const musicXmlRoot = rootFiles.find((rootFile) => {
+    const mediaType = rootFile.getAttribute('media-type');
+    return !mediaType || mediaType === MUSICXML_MEDIA_TYPE;
+  });
+  return musicXmlRoot?.getAttribute('full-path') ?? null;
+};
+
+const findFallbackRootEntry = (entries: ZipEntry[]): ZipEntry | undefined =>
+  entries.find((entry) => !entry.name.startsWith('META-INF/') && /\.(xml|musicxml)$/i.test(entry.name));
+
+/**
+ * Unpacks a compressed MusicXML (.mxl) file and returns the XML of its root file,
+ * located through META-INF/container.xml.
+ */
+export const extractMusicXmlFromMxl = async (buffer: ArrayBuffer): Promise<string> => {
+  const entries = readZipEntries(buffer);
+  const container = entries.find((entry) => entry.name === CONTAINER_PATH);
+  const rootPath = container ? findRootFilePath(decodeXml(await readZipEntry(buffer, container))) : null;
+  const rootEntry = (rootPath ? entries.find((entry) => entry.name === rootPath) : undefined) ?? findFallbackRootEntry(entries);
+  if (!rootEntry) throw new Error('No MusicXML file was found in the archive.');
+  return decodeXml(await readZipEntry(buffer, rootEntry));
+};
+
+const getText = (element: Element | null | undefined): string | null => {
+  const text = element?.textContent?.replace(/\s+/g, ' ').trim();
+  return text ? text : null;
+};
+
+const getCreator = (doc: Document, type: string): string | null =>
+  getText(Array.from(doc.getElementsByTagName('creator')).find((creator) => creator.getAttribute('type') === type));
+
+// 作品情報が無い楽譜では、1ページ目のクレジットを種類ごとに拾う
+const getCredit = (doc: Document, type: string): string | null => {
+  const credit = Array.from(doc.getElementsByTagName('credit')).find((candidate) =>
+    Array.from(candidate.getElementsByTagName('credit-type')).some((creditType) => getText(creditType) === type)
+  );
+  return getText(credit?.getElementsByTagName('credit-words')[0]);
+};
+
+/**
+ * Reads the title, creators and rights from a MusicXML document.
+ */
+export const readMusicXmlMetadata = (xml: string): MusicXmlMetadata => {
+  const empty: MusicXmlMetadata = { title: null, composer: null, lyricist: null, arranger: null, copyright: null };
+  const doc = parseXml(xml);
+  if (!doc) return empty;
+
+  return {
+    title: getText(doc.getElementsByTagName('work-title')[0]) ??
+      getText(doc.getElementsByTagName('movement-title')[0]) ??
+      getCredit(doc, 'title') ??
+      getText(doc.getElementsByTagName('credit-words')[0]),
+    composer: getCreator(doc, 'composer') ?? getCredit(doc, 'composer'),
+    lyricist: getCreator(doc, 'lyricist') ?? getCredit(doc, 'lyricist'),
+    arranger: getCreator(doc, 'arranger') ?? getCredit(doc, 'arranger'),
+    copyright: getText(doc.getElementsByTagName('rights')[0]) ?? getCredit(doc, 'rights')
+  };
+};
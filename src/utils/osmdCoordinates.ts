@@ -1,5 +1,5 @@
 import { OpenSheetMusicDisplay, KeyInstruction, ClefInstruction, ClefEnum } from 'opensheetmusicdisplay';
-import { ColumnDetail, MeasureContext, ClefType, NoteDetail } from '../types/piano';
+import { ColumnDetail, MeasureContext, ClefType, NoteDetail, PracticeHand } from '../types/piano';
 
 export const getPixelPerUnit = (osmd: OpenSheetMusicDisplay, container: HTMLElement): number => {
   const graphicSheet = osmd.GraphicSheet;
@@ -11,7 +11,8 @@ export const extractMeasureContexts = (osmd: OpenSheetMusicDisplay, pixelPerUnit
   const graphicSheet = osmd.GraphicSheet;
   if (!graphicSheet || !osmd.Sheet) return [];
   const contexts: MeasureContext[] = [];
-  const staffStates = new Map<number, { clef: string, key: number, mode: string, octaveShift: number }>();
+  const staffStates = new Map<number, { clef: string, key: number, mode: string, octaveShift: number, tempo: number }>();
+  const defaultTempo = osmd.Sheet.DefaultStartTempoInBpm > 0 ? osmd.Sheet.DefaultStartTempoInBpm : 120;
 
   // 高速化のため、Stavesのインデックスを事前にマップ化
   const staffIndexMap = new Map<any, number>();
@@ -25,7 +26,7 @@ export const extractMeasureContexts = (osmd: OpenSheetMusicDisplay, pixelPerUnit
         const staffIdx = staffIndexMap.get(parentStaff) ?? -1;
 
         if (!staffStates.has(staffId)) {
-          staffStates.set(staffId, { clef: (staffId % 2 !== 0) ? 'F' : 'G', key: 0, mode: 'major', octaveShift: 0 });
+          staffStates.set(staffId, { clef: (staffId % 2 !== 0) ? 'F' : 'G', key: 0, mode: 'major', octaveShift: 0, tempo: defaultTempo });
         }
         const state = staffStates.get(staffId)!;
 
@@ -39,6 +40,9 @@ export const extractMeasureContexts = (osmd: OpenSheetMusicDisplay, pixelPerUnit
             state.clef = (type === ClefEnum.F) ? 'F' : 'G';
           }
 
+          // テンポ指示のない小節は直前のテンポを引き継ぐ
+          if (source && source.TempoInBPM > 0) state.tempo = source.TempoInBPM;
+
           if (source && staffIdx >= 0) {
             // Check FirstInstructionsStaffEntries (Measure start instructions) for Key changes
             if (source.FirstInstructionsStaffEntries?.[staffIdx]) {
@@ -109,12 +113,18 @@ export const extractMeasureContexts = (osmd: OpenSheetMusicDisplay, pixelPerUnit
                   if (minMidi === null || soundingMidi < minMidi) minMidi = soundingMidi;
                   if (maxMidi === null || soundingMidi > maxMidi) maxMidi = soundingMidi;
 
+                  const tie = gn.sourceNote.NoteTie;
+                  const isTieContinuation = !!tie && tie.StartNote !== gn.sourceNote;
+                  const length = tie && !isTieContinuation ? tie.Duration : gn.sourceNote.Length;
                   noteDetails.push({
                     midi: soundingMidi,
                     x: entryX,
                     columnKey,
                     graphicalNote: gn,
-                    index: index
+                    index: index,
+                    isTieContinuation,
+                    timestamp: absTs.RealValue,
+                    duration: length?.RealValue ?? 0
                   });
                 }
               });
@@ -147,6 +157,13 @@ export const extractMeasureContexts = (osmd: OpenSheetMusicDisplay, pixelPerUnit
             minMidi,
             maxMidi,
             octaveShift: state.octaveShift,
+            timestamp: source ? source.AbsoluteTimestamp.RealValue : 0,
+            duration: source ? source.Duration.RealValue : 1,
+            timeSignature: {
+              numerator: source?.ActiveTimeSignature?.Numerator ?? 4,
+              denominator: source?.ActiveTimeSignature?.Denominator ?? 4
+            },
+            tempo: state.tempo,
             columnDetails: Array.from(columnDetailsMap.values()),
             noteDetails
           });
@@ -174,6 +191,13 @@ export const getColumnKeyFromTimestamp = (timestamp: any, fallbackMeasureNumber?
   return '0:0/1';
 };
 
+// 大譜表では偶数番目の譜表を右手（ト音記号）、奇数番目を左手（ヘ音記号）として扱う
+export const isStaffInHand = (staffId: number, hand: PracticeHand): boolean => {
+  if (hand === 'both') return true;
+  const isRightHandStaff = staffId % 2 === 0;
+  return hand === 'right' ? isRightHandStaff : !isRightHandStaff;
+};
+
 export const getMeasureAtPoint = (x: number, y: number, contexts: MeasureContext[]): MeasureContext | null => {
   // まず X 座標の範囲内にある小節をすべて抽出
   const candidateMeasures = contexts.filter(ctx => x >= ctx.x && x <= ctx.x + ctx.width);
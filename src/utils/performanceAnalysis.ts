@@ -0,0 +1,276 @@
+import { MeasureAccuracy, MidiRecording, PerformanceReport, ScoreColumn } from '../types/piano';
+import { getColumnMidiNotes } from './scoreColumns';
+
+interface ExpectedColumn {
+  measureNumber: number;
+  time: number; // 全音符単位
+  notes: Set<number>;
+}
+
+interface PlayedOnset {
+  time: number; // ミリ秒
+  notes: Set<number>;
+}
+
+const CHORD_WINDOW_MS = 60; // この間隔内の打鍵は和音としてまとめる
+
+// 各打鍵について、直前の打鍵の最良の対応位置の前後この列数だけを探す。表の大きさを打鍵数に比例させる
+const ALIGNMENT_BAND = 128;
+const BAND_WIDTH = 2 * ALIGNMENT_BAND + 1;
+const START_VOTE_ONSETS = 16;
+const OFFSET_BUCKET_MS = 100;
+
+const OP_MATCH = 1;
+const OP_SKIP_EXPECTED = 2;
+const OP_SKIP_PLAYED = 3;
+
+const groupOnsets = (recording: MidiRecording): PlayedOnset[] => {
+  const onsets: PlayedOnset[] = [];
+  recording.events
+    .filter((event) => event.type === 'note-on' && typeof event.midi === 'number')
+    .sort((a, b) => a.time - b.time)
+    .forEach((event) => {
+      const last = onsets[onsets.length - 1];
+      if (last && event.time - last.time <= CHORD_WINDOW_MS) {
+        last.notes.add(event.midi!);
+      } else {
+        onsets.push({ time: event.time, notes: new Set([event.midi!]) });
+      }
+    });
+  return onsets;
+};
+
+const compareNotes = (expected: Set<number>, played: Set<number>) => {
+  let correct = 0;
+  expected.forEach((midi) => { if (played.has(midi)) correct++; });
+  const absent = expected.size - correct;
+  const foreign = played.size - correct;
+  const wrong = Math.min(absent, foreign);
+  return { correct, wrong, missed: absent - wrong, extra: foreign - wrong };
+};
+
+/**
+ * Estimates where in the score the take starts. The first onsets vote for the time offset to every column
+ * that contains one of their notes; the most common offset places the first onset. Returns the alignment row
+ * (1-based column index) of that column.
+ */
+const estimateStartRow = (expected: ExpectedColumn[], played: PlayedOnset[], msPerWhole: number): number => {
+  const columnsByPitch = new Map<number, number[]>();
+  expected.forEach((column, index) => {
+    column.notes.forEach((midi) => {
+      const list = columnsByPitch.get(midi);
+      if (list) list.push(index);
+      else columnsByPitch.set(midi, [index]);
+    });
+  });
+
+  const votes = new Map<number, number>();
+  played.slice(0, START_VOTE_ONSETS).forEach((onset) => {
+    onset.notes.forEach((midi) => {
+      columnsByPitch.get(midi)?.forEach((index) => {
+        const bucket = Math.round((onset.time - expected[index].time * msPerWhole) / OFFSET_BUCKET_MS);
+        votes.set(bucket, (votes.get(bucket) ?? 0) + 1);
+      });
+    });
+  });
+  if (votes.size === 0) return 0;
+
+  const [bestBucket] = Array.from(votes.entries()).reduce((best, entry) => entry[1] > best[1] ? entry : best);
+  const startTime = (played[0].time - bestBucket * OFFSET_BUCKET_MS) / msPerWhole;
+  const index = expected.findIndex((column) => column.time >= startTime - 1e-9);
+  return index < 0 ? expected.length : index + 1;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Aligns a recorded take against the score columns and counts wrong, missed and extra notes per measure.
+ * The take may cover any passage: columns before the first and after the last aligned onset are not scored.
+ * The alignment only searches a band of columns that follows the best match of the previous onset,
+ * so time and memory grow with the length of the take, not with the length of the score times the take.
+ * Timing deviation is measured against the take's tempo, relative to the median offset of the matched columns.
+ */
+export const analyzePerformance = (
+  recording: MidiRecording,
+  columns: ScoreColumn[],
+  visualTranspose: number
+): PerformanceReport => {
+  const expected: ExpectedColumn[] = columns.flatMap((column) => {
+    const notes = getColumnMidiNotes(column, visualTranspose, { requireAttack: true });
+    return notes.size > 0 ? [{ measureNumber: column.measure.measureNumber, time: column.timestamp, notes }] : [];
+  });
+  const played = groupOnsets(recording);
+  const n = expected.length;
+  const m = played.length;
+  const msPerWhole = (4 * 60000) / recording.tempo;
+
+  // 期待列側の前後の読み飛ばしは無料にした編集距離（どこから弾き始めてもよい）。
+  // 行 i は期待列 i - 1、列 j は打鍵 j - 1。打鍵ごとに bandStarts[j] から BAND_WIDTH 行だけを計算する
+  const ops = new Uint8Array((m + 1) * BAND_WIDTH);
+  const bandStarts = new Int32Array(m + 1);
+  let previous = new Float64Array(BAND_WIDTH);
+  let current = new Float64Array(BAND_WIDTH);
+  let previousStart = 0;
+  const readPrevious = (j: number, i: number) => {
+    if (j === 1) return 0; // 打鍵 0 個の時点ではどの行からでも始められる
+    const k = i - previousStart;
+    return k >= 0 && k < BAND_WIDTH ? previous[k] : Infinity;
+  };
+
+  let center = m > 0 ? estimateStartRow(expected, played, msPerWhole) : 0;
+  for (let j = 1; j <= m; j++) {
+    const onset = played[j - 1];
+    const start = Math.max(0, Math.min(center - ALIGNMENT_BAND, n + 1 - BAND_WIDTH));
+    const end = Math.min(n, start + BAND_WIDTH - 1);
+    current.fill(Infinity);
+    let bestRow = start;
+    for (let i = start; i <= end; i++) {
+      const k = i - start;
+      let best = Infinity;
+      let op = OP_SKIP_PLAYED;
+      if (i > 0) {
+        const diff = compareNotes(expected[i - 1].notes, onset.notes);
+        best = readPrevious(j, i - 1) + diff.wrong + diff.missed + diff.extra;
+        op = OP_MATCH;
+        const skipExpected = k > 0 ? current[k - 1] + expected[i - 1].notes.size : Infinity;
+        if (skipExpected < best) { best = skipExpected; op = OP_SKIP_EXPECTED; }
+      }
+      const skipPlayed = readPrevious(j, i) + onset.notes.size;
+      if (skipPlayed < best) { best = skipPlayed; op = OP_SKIP_PLAYED; }
+      current[k] = best;
+      ops[j * BAND_WIDTH + k] = op;
+      if (best < current[bestRow - start]) bestRow = i;
+    }
+    bandStarts[j] = start;
+    [previous, current] = [current, previous];
+    previousStart = start;
+    center = bestRow + 1;
+  }
+
+  let endIndex = 0;
+  if (m > 0) {
+    endIndex = previousStart;
+    for (let k = 1; k < BAND_WIDTH; k++) {
+      if (previous[k] < previous[endIndex - previousStart]) endIndex = previousStart + k;
+    }
+  }
+
+  const pairs: { expectedIndex: number; playedIndex: number }[] = [];
+  const skippedExpected: number[] = [];
+  const extraOnsets: { afterIndex: number; playedIndex: number }[] = [];
+  let i = endIndex;
+  let j = m;
+  while (j > 0) {
+    const op = i === 0 ? OP_SKIP_PLAYED : ops[j * BAND_WIDTH + i - bandStarts[j]];
+    if (op === OP_MATCH) {
+      pairs.push({ expectedIndex: i - 1, playedIndex: j - 1 });
+      i--; j--;
+    } else if (op === OP_SKIP_EXPECTED) {
+      skippedExpected.push(i - 1);
+      i--;
+    } else {
+      extraOnsets.push({ afterIndex: i - 1, playedIndex: j - 1 });
+      j--;
+    }
+  }
+  const startIndex = i;
+
+  const measures = new Map<number, MeasureAccuracy & { timings: number[] }>();
+  const getMeasure = (expectedIndex: number) => {
+    const clamped = Math.min(Math.max(expectedIndex, startIndex), Math.max(startIndex, endIndex - 1));
+    const measureNumber = expected[clamped]?.measureNumber ?? 0;
+    let measure = measures.get(measureNumber);
+    if (!measure) {
+      measure = {
+        measureNumber,
+        expectedNotes: 0,
+        correctNotes: 0,
+        wrongNotes: 0,
+        missedNotes: 0,
+        extraNotes: 0,
+        meanTimingMs: null,
+        meanAbsTimingMs: null,
+        timings: []
+      };
+      measures.set(measureNumber, measure);
+    }
+    return measure;
+  };
+
+  const matchedOffsets = pairs
+    .filter((pair) => compareNotes(expected[pair.expectedIndex].notes, played[pair.playedIndex].notes).correct > 0)
+    .map((pair) => ({ ...pair, offset: played[pair.playedIndex].time - expected[pair.expectedIndex].time * msPerWhole }));
+  const anchor = matchedOffsets.length > 0 ? median(matchedOffsets.map((entry) => entry.offset)) : 0;
+
+  if (n > 0 && m > 0) {
+    pairs.forEach((pair) => {
+      const measure = getMeasure(pair.expectedIndex);
+      const diff = compareNotes(expected[pair.expectedIndex].notes, played[pair.playedIndex].notes);
+      measure.expectedNotes += expected[pair.expectedIndex].notes.size;
+      measure.correctNotes += diff.correct;
+      measure.wrongNotes += diff.wrong;
+      measure.missedNotes += diff.missed;
+      measure.extraNotes += diff.extra;
+    });
+    skippedExpected.forEach((index) => {
+      const measure = getMeasure(index);
+      measure.expectedNotes += expected[index].notes.size;
+      measure.missedNotes += expected[index].notes.size;
+    });
+    extraOnsets.forEach((entry) => {
+      getMeasure(entry.afterIndex).extraNotes += played[entry.playedIndex].notes.size;
+    });
+    matchedOffsets.forEach((entry) => {
+      getMeasure(entry.expectedIndex).timings.push(entry.offset - anchor);
+    });
+  }
+
+  const measureList: MeasureAccuracy[] = Array.from(measures.values())
+    .sort((a, b) => a.measureNumber - b.measureNumber)
+    .map(({ timings, ...measure }) => ({
+      ...measure,
+      meanTimingMs: timings.length > 0 ? Math.round(timings.reduce((sum, value) => sum + value, 0) / timings.length) : null,
+      meanAbsTimingMs: timings.length > 0 ? Math.round(timings.reduce((sum, value) => sum + Math.abs(value), 0) / timings.length) : null
+    }));
+
+  const sum = (key: 'expectedNotes' | 'correctNotes' | 'wrongNotes' | 'missedNotes' | 'extraNotes') =>
+    measureList.reduce((total, measure) => total + measure[key], 0);
+  const allTimings = matchedOffsets.map((entry) => Math.abs(entry.offset - anchor));
+  const expectedNotes = sum('expectedNotes');
+  const extraNotes = sum('extraNotes');
+
+  return {
+    recordingId: recording.id,
+    recordingName: recording.name,
+    tempo: recording.tempo,
+    measures: measureList,
+    expectedNotes,
+    correctNotes: sum('correctNotes'),
+    wrongNotes: sum('wrongNotes'),
+    missedNotes: sum('missedNotes'),
+    extraNotes,
+    meanAbsTimingMs: allTimings.length > 0 ? Math.round(allTimings.reduce((total, value) => total + value, 0) / allTimings.length) : null,
+    accuracy: expectedNotes + extraNotes > 0 ? sum('correctNotes') / (expectedNotes + extraNotes) : 0
+  };
+};
+
+/**
+ * Rates a measure for the score overlay: 'good' when everything was hit, 'fair' for minor slips.
+ */
+export const getMeasureGrade = (measure: MeasureAccuracy): 'good' | 'fair' | 'poor' => {
+  const total = measure.expectedNotes + measure.extraNotes;
+  const ratio = total > 0 ? measure.correctNotes / total : 0;
+  if (ratio >= 0.95 && (measure.meanAbsTimingMs ?? 0) <= 80) return 'good';
+  if (ratio >= 0.75) return 'fair';
+  return 'poor';
+};
+
+export const MEASURE_GRADE_COLORS = {
+  good: '#4caf50',
+  fair: '#ff9800',
+  poor: '#f44336'
+} as const;
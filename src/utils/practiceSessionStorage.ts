@@ -0,0 +1,36 @@
+import { PracticeSession } from '../types/piano';
+import { openDb, runRequest, PRACTICE_SESSION_STORE } from './appDatabase';
+
+export const listPracticeSessions = async (scoreId: string): Promise<PracticeSession[]> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(PRACTICE_SESSION_STORE, 'readonly');
+    const index = tx.objectStore(PRACTICE_SESSION_STORE).index('scoreId');
+    const rows = await runRequest(index.getAll(IDBKeyRange.only(scoreId))) as PracticeSession[];
+    return rows.sort((a, b) => b.startedAt - a.startedAt);
+  } finally {
+    db.close();
+  }
+};
+
+export const savePracticeSession = async (session: PracticeSession): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(PRACTICE_SESSION_STORE, 'readwrite');
+    await runRequest(tx.objectStore(PRACTICE_SESSION_STORE).put(session));
+  } finally {
+    db.close();
+  }
+};
+
+export const deletePracticeSessionsForScore = async (scoreId: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(PRACTICE_SESSION_STORE, 'readwrite');
+    const store = tx.objectStore(PRACTICE_SESSION_STORE);
+    const ids = await runRequest(store.index('scoreId').getAllKeys(IDBKeyRange.only(scoreId)));
+    await Promise.all(ids.map((id) => runRequest(store.delete(id))));
+  } finally {
+    db.close();
+  }
+};
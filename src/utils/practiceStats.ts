@@ -0,0 +1,100 @@
+import { PracticeSession } from '../types/piano';
+
+export type PracticePeriod = 'day' | 'week';
+
+export interface PracticePeriodSummary {
+  start: number; // 期間の開始時刻（ローカル時刻の0時）
+  label: string;
+  sessionCount: number;
+  durationMs: number;
+  measureCount: number;
+  accuracy: number | null;
+  tempo: number | null;
+}
+
+export interface PracticeTotals {
+  sessionCount: number;
+  durationMs: number;
+  accuracy: number | null;
+  bestTempo: number | null;
+  lastPracticedAt: number | null;
+}
+
+const PERIOD_COUNT: Record<PracticePeriod, number> = { day: 14, week: 12 };
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// 週は月曜始まり
+const startOfWeek = (time: number) => {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+const shiftPeriod = (start: number, period: PracticePeriod, amount: number) => {
+  const date = new Date(start);
+  date.setDate(date.getDate() + amount * (period === 'day' ? 1 : 7));
+  return date.getTime();
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Buckets practice sessions into the most recent days or weeks (empty periods included) for trend charts.
+ */
+export const summarizePracticeSessions = (
+  sessions: PracticeSession[],
+  period: PracticePeriod,
+  now: number = Date.now()
+): PracticePeriodSummary[] => {
+  const getStart = period === 'day' ? startOfDay : startOfWeek;
+  const latest = getStart(now);
+
+  return Array.from({ length: PERIOD_COUNT[period] }, (_, index) => {
+    const start = shiftPeriod(latest, period, index - PERIOD_COUNT[period] + 1);
+    const inPeriod = sessions.filter((session) => getStart(session.startedAt) === start);
+    const measures = new Set(inPeriod.flatMap((session) => session.measures));
+    const accuracies = inPeriod.flatMap((session) => session.accuracy !== null ? [session.accuracy] : []);
+    const tempos = inPeriod.flatMap((session) => session.tempo !== null ? [session.tempo] : []);
+    const date = new Date(start);
+
+    return {
+      start,
+      label: `${date.getMonth() + 1}/${date.getDate()}`,
+      sessionCount: inPeriod.length,
+      durationMs: inPeriod.reduce((sum, session) => sum + session.durationMs, 0),
+      measureCount: measures.size,
+      accuracy: average(accuracies),
+      tempo: tempos.length > 0 ? Math.max(...tempos) : null
+    };
+  });
+};
+
+export const getPracticeTotals = (sessions: PracticeSession[]): PracticeTotals => {
+  const tempos = sessions.flatMap((session) => session.tempo !== null ? [session.tempo] : []);
+  return {
+    sessionCount: sessions.length,
+    durationMs: sessions.reduce((sum, session) => sum + session.durationMs, 0),
+    accuracy: average(sessions.flatMap((session) => session.accuracy !== null ? [session.accuracy] : [])),
+    bestTempo: tempos.length > 0 ? Math.max(...tempos) : null,
+    lastPracticedAt: sessions.length > 0 ? Math.max(...sessions.map((session) => session.endedAt)) : null
+  };
+};
+
+/**
+ * Counts in how many sessions each measure was practiced, most practiced first.
+ */
+export const getMeasurePracticeCounts = (sessions: PracticeSession[]): { measureNumber: number; count: number }[] => {
+  const counts = new Map<number, number>();
+  sessions.forEach((session) => {
+    session.measures.forEach((measure) => counts.set(measure, (counts.get(measure) ?? 0) + 1));
+  });
+  return Array.from(counts.entries())
+    .map(([measureNumber, count]) => ({ measureNumber, count }))
+    .sort((a, b) => b.count - a.count || a.measureNumber - b.measureNumber);
+};
@@ -0,0 +1,46 @@
+import { MidiRecording } from '../types/piano';
+import { openDb, runRequest, RECORDING_STORE } from './appDatabase';
+
+export const listRecordings = async (scoreId: string): Promise<MidiRecording[]> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(RECORDING_STORE, 'readonly');
+    const index = tx.objectStore(RECORDING_STORE).index('scoreId');
+    const rows = await runRequest(index.getAll(IDBKeyRange.only(scoreId))) as MidiRecording[];
+    return rows.sort((a, b) => b.createdAt - a.createdAt);
+  } finally {
+    db.close();
+  }
+};
+
+export const saveRecording = async (recording: MidiRecording): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(RECORDING_STORE, 'readwrite');
+    await runRequest(tx.objectStore(RECORDING_STORE).put(recording));
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteRecording = async (id: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(RECORDING_STORE, 'readwrite');
+    await runRequest(tx.objectStore(RECORDING_STORE).delete(id));
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteRecordingsForScore = async (scoreId: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(RECORDING_STORE, 'readwrite');
+    const store = tx.objectStore(RECORDING_STORE);
+    const ids = await runRequest(store.index('scoreId').getAllKeys(IDBKeyRange.only(scoreId)));
+    await Promise.all(ids.map((id) => runRequest(store.delete(id))));
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,190 @@
+import { LoopRange, MeasureContext, PracticeHand, ScoreColumn, SelectionResult, TimeSignature } from '../types/piano';
+import { isStaffInHand } from './osmdCoordinates';
+
+const getMeasureKey = (ctx: MeasureContext) => `${ctx.systemId}:${ctx.measureNumber}`;
+
+/**
+ * Groups the notes of every staff into score columns and orders them in reading order
+ * (system → measure → x), so that cursor-driven modes can step through the whole score.
+ */
+export const buildScoreColumns = (contexts: MeasureContext[]): ScoreColumn[] => {
+  const topMeasures = new Map<string, MeasureContext>();
+  const measureSpans = new Map<string, { y1: number; y2: number }>();
+
+  contexts.forEach((ctx) => {
+    const measureKey = getMeasureKey(ctx);
+    if (!topMeasures.has(measureKey)) topMeasures.set(measureKey, ctx);
+
+    const span = measureSpans.get(measureKey);
+    if (span) {
+      span.y1 = Math.min(span.y1, ctx.y);
+      span.y2 = Math.max(span.y2, ctx.y + ctx.height);
+    } else {
+      measureSpans.set(measureKey, { y1: ctx.y, y2: ctx.y + ctx.height });
+    }
+  });
+
+  const columns = new Map<string, ScoreColumn>();
+  contexts.forEach((ctx) => {
+    const measureKey = getMeasureKey(ctx);
+    const span = measureSpans.get(measureKey)!;
+
+    ctx.noteDetails.forEach((detail) => {
+      const id = `${measureKey}:${detail.columnKey}`;
+      let column = columns.get(id);
+      if (!column) {
+        column = {
+          id,
+          measure: topMeasures.get(measureKey) ?? ctx,
+          columnKey: detail.columnKey,
+          timestamp: detail.timestamp,
+          x: detail.x,
+          y1: span.y1,
+          y2: span.y2,
+          notes: []
+        };
+        columns.set(id, column);
+      }
+
+      column.notes.push({
+        midi: detail.midi,
+        staffId: ctx.staffId,
+        isTieContinuation: detail.isTieContinuation,
+        duration: detail.duration
+      });
+    });
+  });
+
+  return Array.from(columns.values()).sort((a, b) =>
+    a.measure.systemId - b.measure.systemId ||
+    a.measure.measureNumber - b.measure.measureNumber ||
+    a.x - b.x
+  );
+};
+
+/**
+ * Keeps only the notes of the practiced hand. Columns left without notes are dropped.
+ */
+export const filterColumnsByHand = (columns: ScoreColumn[], hand: PracticeHand): ScoreColumn[] => {
+  if (hand === 'both') return columns;
+  return columns.flatMap((column) => {
+    const notes = column.notes.filter((note) => isStaffInHand(note.staffId, hand));
+    return notes.length > 0 ? [{ ...column, notes }] : [];
+  });
+};
+
+/**
+ * Returns the sounding MIDI notes of a column (visualTranspose applied).
+ * With requireAttack, notes continued by a tie are left out because they are not struck again.
+ */
+export const getColumnMidiNotes = (
+  column: ScoreColumn,
+  visualTranspose: number,
+  options: { requireAttack?: boolean } = {}
+): Set<number> => {
+  const notes = new Set<number>();
+  column.notes.forEach((note) => {
+    if (options.requireAttack && note.isTieContinuation) return;
+    notes.add(note.midi + visualTranspose);
+  });
+  return notes;
+};
+
+export const createColumnSelection = (column: ScoreColumn, visualTranspose: number): SelectionResult => ({
+  measure: column.measure,
+  midiNotes: getColumnMidiNotes(column, visualTranspose),
+  noteX: column.x,
+  columnKey: column.columnKey
+});
+
+export const findColumnIndex = (columns: ScoreColumn[], selection: SelectionResult | null): number => {
+  if (!selection || selection.columnKey === null) return -1;
+  return columns.findIndex((column) =>
+    column.columnKey === selection.columnKey &&
+    column.measure.measureNumber === selection.measure.measureNumber &&
+    column.measure.systemId === selection.measure.systemId
+  );
+};
+
+export interface LoopBounds {
+  startIndex: number;
+  endIndex: number;
+  startTime: number; // 全音符単位
+  endTime: number;
+  timeSignature: TimeSignature; // 開始小節の拍子（カウントイン用）
+}
+
+/**
+ * Resolves a measure range into column indices and a time window.
+ * Returns null when the range contains no playable columns.
+ */
+export const getLoopBounds = (
+  contexts: MeasureContext[],
+  columns: ScoreColumn[],
+  range: LoopRange | null
+): LoopBounds | null => {
+  if (!range) return null;
+  const isInRange = (measureNumber: number) => measureNumber >= range.startMeasure && measureNumber <= range.endMeasure;
+
+  const startIndex = columns.findIndex((column) => isInRange(column.measure.measureNumber));
+  if (startIndex < 0) return null;
+  let endIndex = startIndex;
+  while (endIndex + 1 < columns.length && isInRange(columns[endIndex + 1].measure.measureNumber)) endIndex++;
+
+  const measures = contexts.filter((ctx) => isInRange(ctx.measureNumber));
+  if (measures.length === 0) return null;
+  const firstMeasure = measures.reduce((first, ctx) => ctx.timestamp < first.timestamp ? ctx : first);
+
+  return {
+    startIndex,
+    endIndex,
+    startTime: firstMeasure.timestamp,
+    endTime: Math.max(...measures.map((ctx) => ctx.timestamp + ctx.duration)),
+    timeSignature: firstMeasure.timeSignature
+  };
+};
+
+/**
+ * Builds the selectable columns of the score in reading order from each measure's columnDetails,
+ * with the practiced hand's sounding notes. Used for stepping the selection from the keyboard.
+ */
+export const buildColumnSelections = (
+  contexts: MeasureContext[],
+  visualTranspose: number,
+  hand: PracticeHand
+): SelectionResult[] => {
+  const topMeasures = new Map<string, MeasureContext>();
+  const selections = new Map<string, SelectionResult>();
+
+  contexts.forEach((ctx) => {
+    const measureKey = getMeasureKey(ctx);
+    if (!topMeasures.has(measureKey)) topMeasures.set(measureKey, ctx);
+    ctx.columnDetails.forEach((column) => {
+      const id = `${measureKey}:${column.columnKey}`;
+      if (selections.has(id)) return;
+      selections.set(id, {
+        measure: topMeasures.get(measureKey)!,
+        midiNotes: new Set<number>(),
+        noteX: column.x,
+        columnKey: column.columnKey
+      });
+    });
+  });
+
+  contexts.forEach((ctx) => {
+    if (!isStaffInHand(ctx.staffId, hand)) return;
+    const measureKey = getMeasureKey(ctx);
+    ctx.noteDetails.forEach((detail) => {
+      selections.get(`${measureKey}:${detail.columnKey}`)?.midiNotes.add(detail.midi + visualTranspose);
+    });
+  });
+
+  // 休符だけの列はクリック時と同様に選択対象にしない
+  return Array.from(selections.values())
+    .filter((selection) => selection.midiNotes.size > 0)
+    .sort((a, b) =>
+      a.measure.systemId - b.measure.systemId ||
+      a.measure.measureNumber - b.measure.measureNumber ||
+      (a.noteX ?? 0) - (b.noteX ?? 0)
+    );
+};
@@ -0,0 +1,60 @@
+import { ScoreMetadata, ScoreSortKey } from '../types/piano';
+
+export const SCORE_SORT_OPTIONS: { key: ScoreSortKey; label: string }[] = [
+  { key: 'lastOpened', label: 'Last Opened' },
+  { key: 'dateAdded', label: 'Date Added' },
+  { key: 'name', label: 'Name' },
+  { key: 'composer', label: 'Composer' }
+];
+
+export const UNFILED_FOLDER = ''; // フォルダ絞り込みで「未分類」を表す値
+
+export interface ScoreFilter {
+  query: string;
+  folder: string | null; // null なら全フォルダ
+  tags: string[]; // すべてを含む楽譜だけを残す
+  favoritesOnly: boolean;
+}
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+
+/**
+ * Sorts scores by the given key. Favorites always come first; scores without a composer sort last.
+ */
+export const sortScores = (scores: ScoreMetadata[], key: ScoreSortKey): ScoreMetadata[] =>
+  [...scores].sort((a, b) => {
+    if (!!a.favorite !== !!b.favorite) return a.favorite ? -1 : 1;
+    switch (key) {
+      case 'name':
+        return compareText(a.name, b.name);
+      case 'dateAdded':
+        return b.timestamp - a.timestamp;
+      case 'lastOpened':
+        return (b.lastOpened ?? b.timestamp) - (a.lastOpened ?? a.timestamp);
+      case 'composer':
+        if (!a.composer !== !b.composer) return a.composer ? -1 : 1;
+        return compareText(a.composer ?? '', b.composer ?? '') || compareText(a.name, b.name);
+    }
+  });
+
+export const filterScores = (scores: ScoreMetadata[], filter: ScoreFilter): ScoreMetadata[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return scores.filter((score) => {
+    if (filter.favoritesOnly && !score.favorite) return false;
+    if (filter.folder !== null && (score.folder ?? UNFILED_FOLDER) !== filter.folder) return false;
+    if (filter.tags.some((tag) => !score.tags?.includes(tag))) return false;
+    // 名前・作曲者・フォルダ・タグのどこかに全語を含むものを残す
+    const haystack = [score.name, score.composer, score.arranger, score.folder, ...(score.tags ?? [])]
+      .filter(Boolean).join(' ').toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+export const getLibraryFolders = (scores: ScoreMetadata[]): string[] =>
+  Array.from(new Set(scores.map((score) => score.folder).filter((folder): folder is string => !!folder))).sort(compareText);
+
+export const getLibraryTags = (scores: ScoreMetadata[]): string[] =>
+  Array.from(new Set(scores.flatMap((score) => score.tags ?? []))).sort(compareText);
+
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)));
@@ -0,0 +1,268 @@
+import { SavedScore, ScoreMetadata } from '../types/piano';
+import {
+  openDb, runRequest, waitForTransaction, PRACTICE_SESSION_STORE, RECORDING_STORE, SCORE_DATA_STORE, SCORE_METADATA_STORE,
+  SCORE_VERSION_STORE
+} from './appDatabase';
+
+const LEGACY_LIBRARY_KEY = 'piano_score_library';
+
+export interface StorageUsage {
+  usage: number; // バイト
+  quota: number;
+}
+
+interface ScoreDataRow {
+  id: string;
+  data: string;
+}
+
+// 過去の版の本文。メタデータは楽譜側の versions に持つ
+export interface StoredScoreVersion {
+  id: string;
+  scoreId: string;
+  data: string;
+}
+
+const toMetadata = ({ data, ...metadata }: SavedScore): ScoreMetadata => metadata;
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const listScoreMetadata = async (): Promise<ScoreMetadata[]> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(SCORE_METADATA_STORE, 'readonly');
+    const rows = await runRequest(tx.objectStore(SCORE_METADATA_STORE).getAll()) as ScoreMetadata[];
+    return rows.sort((a, b) => b.timestamp - a.timestamp);
+  } finally {
+    db.close();
+  }
+};
+
+export const loadScoreData = async (id: string): Promise<string | null> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(SCORE_DATA_STORE, 'readonly');
+    const row = await runRequest(tx.objectStore(SCORE_DATA_STORE).get(id)) as ScoreDataRow | undefined;
+    return row?.data ?? null;
+  } finally {
+    db.close();
+  }
+};
+
+const putScores = async (scores: SavedScore[]): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([SCORE_METADATA_STORE, SCORE_DATA_STORE], 'readwrite');
+    const done = waitForTransaction(tx);
+    scores.forEach((score) => {
+      tx.objectStore(SCORE_METADATA_STORE).put(toMetadata(score));
+      const row: ScoreDataRow = { id: score.id, data: score.data };
+      tx.objectStore(SCORE_DATA_STORE).put(row);
+    });
+    await done;
+  } finally {
+    db.close();
+  }
+};
+
+export const saveScore = (score: SavedScore): Promise<void> => putScores([score]);
+
+export const listScores = async (): Promise<SavedScore[]> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([SCORE_METADATA_STORE, SCORE_DATA_STORE], 'readonly');
+    const metadata = await runRequest(tx.objectStore(SCORE_METADATA_STORE).getAll()) as ScoreMetadata[];
+    const rows = await runRequest(tx.objectStore(SCORE_DATA_STORE).getAll()) as ScoreDataRow[];
+    const dataById = new Map(rows.map((row) => [row.id, row.data]));
+    return metadata.flatMap((score) => {
+      const data = dataById.get(score.id);
+      return data !== undefined ? [{ ...score, data }] : [];
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveScoreMetadata = async (metadata: ScoreMetadata): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(SCORE_METADATA_STORE, 'readwrite');
+    const done = waitForTransaction(tx);
+    tx.objectStore(SCORE_METADATA_STORE).put(metadata);
+    await done;
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteScore = async (id: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([SCORE_METADATA_STORE, SCORE_DATA_STORE, SCORE_VERSION_STORE], 'readwrite');
+    const done = waitForTransaction(tx);
+    tx.objectStore(SCORE_METADATA_STORE).delete(id);
+    tx.objectStore(SCORE_DATA_STORE).delete(id);
+    const versionStore = tx.objectStore(SCORE_VERSION_STORE);
+    const versionKeys = versionStore.index('scoreId').getAllKeys(IDBKeyRange.only(id));
+    versionKeys.onsuccess = () => versionKeys.result.forEach((key) => versionStore.delete(key));
+    await done;
+  } finally {
+    db.close();
+  }
+};
+
+export const loadScoreVersionData = async (versionId: string): Promise<string | null> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(SCORE_VERSION_STORE, 'readonly');
+    const row = await runRequest(tx.objectStore(SCORE_VERSION_STORE).get(versionId)) as StoredScoreVersion | undefined;
+    return row?.data ?? null;
+  } finally {
+    db.close();
+  }
+};
+
+export const listScoreVersions = async (): Promise<StoredScoreVersion[]> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(SCORE_VERSION_STORE, 'readonly');
+    return await runRequest(tx.objectStore(SCORE_VERSION_STORE).getAll()) as StoredScoreVersion[];
+  } finally {
+    db.close();
+  }
+};
+
+// トランザクション内で、楽譜に属する行を scoreId のインデックスから探して消す
+const deleteRowsOfScore = async (store: IDBObjectStore, scoreId: string) => {
+  const keys = await runRequest(store.index('scoreId').getAllKeys(IDBKeyRange.only(scoreId)));
+  keys.forEach((key) => store.delete(key));
+};
+
+/**
+ * Writes imported scores and their versions in a single transaction, so a failed write (e.g. storage full)
+ * leaves the library as it was. With replaceAll the current library is cleared first, together with the
+ * recordings and practice sessions of scores that are not imported again; otherwise the scores in
+ * replacedIds lose their old versions before the imported ones are written.
+ */
+export const importScores = async (
+  scores: SavedScore[],
+  versions: StoredScoreVersion[],
+  replaceAll: boolean,
+  replacedIds: string[] = []
+): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(
+      [SCORE_METADATA_STORE, SCORE_DATA_STORE, SCORE_VERSION_STORE, RECORDING_STORE, PRACTICE_SESSION_STORE],
+      'readwrite'
+    );
+    const done = waitForTransaction(tx);
+    const metadataStore = tx.objectStore(SCORE_METADATA_STORE);
+    const versionStore = tx.objectStore(SCORE_VERSION_STORE);
+
+    // 消す操作は書き込みより先に並べる（同じ ID の版を書いた後に消さないよう、キーの取得を待つ）
+    if (replaceAll) {
+      const importedIds = new Set(scores.map((score) => score.id));
+      const existingIds = await runRequest(metadataStore.getAllKeys()) as string[];
+      for (const id of existingIds.filter((existingId) => !importedIds.has(existingId))) {
+        await deleteRowsOfScore(tx.objectStore(RECORDING_STORE), id);
+        await deleteRowsOfScore(tx.objectStore(PRACTICE_SESSION_STORE), id);
+      }
+      metadataStore.clear();
+      tx.objectStore(SCORE_DATA_STORE).clear();
+      versionStore.clear();
+    } else {
+      for (const id of replacedIds) await deleteRowsOfScore(versionStore, id);
+    }
+
+    scores.forEach((score) => {
+      metadataStore.put(toMetadata(score));
+      const row: ScoreDataRow = { id: score.id, data: score.data };
+      tx.objectStore(SCORE_DATA_STORE).put(row);
+    });
+    versions.forEach((version) => versionStore.put(version));
+    await done;
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Replaces the body of a score in one transaction, optionally archiving the previous body
+ * as a version and removing a version (the one that was restored).
+ */
+export const saveScoreRevision = async (
+  score: SavedScore,
+  archived: StoredScoreVersion | null,
+  removedVersionId: string | null = null
+): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([SCORE_METADATA_STORE, SCORE_DATA_STORE, SCORE_VERSION_STORE], 'readwrite');
+    const done = waitForTransaction(tx);
+    tx.objectStore(SCORE_METADATA_STORE).put(toMetadata(score));
+    const row: ScoreDataRow = { id: score.id, data: score.data };
+    tx.objectStore(SCORE_DATA_STORE).put(row);
+    if (archived) tx.objectStore(SCORE_VERSION_STORE).put(archived);
+    if (removedVersionId) tx.objectStore(SCORE_VERSION_STORE).delete(removedVersionId);
+    await done;
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteScoreVersion = async (metadata: ScoreMetadata, versionId: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([SCORE_METADATA_STORE, SCORE_VERSION_STORE], 'readwrite');
+    const done = waitForTransaction(tx);
+    tx.objectStore(SCORE_METADATA_STORE).put(metadata);
+    tx.objectStore(SCORE_VERSION_STORE).delete(versionId);
+    await done;
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Moves a library saved by earlier versions (all scores in one localStorage key) into IndexedDB.
+ * The localStorage key is removed only after every score has been written.
+ */
+export const migrateLocalStorageLibrary = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_LIBRARY_KEY);
+  if (!saved) return 0;
+
+  let legacy: Omit<SavedScore, 'size'>[];
+  try {
+    legacy = JSON.parse(saved);
+  } catch (e) {
+    console.warn('Discarding unreadable score library in localStorage:', e);
+    localStorage.removeItem(LEGACY_LIBRARY_KEY);
+    return 0;
+  }
+  if (!Array.isArray(legacy)) {
+    localStorage.removeItem(LEGACY_LIBRARY_KEY);
+    return 0;
+  }
+
+  const scores: SavedScore[] = legacy
+    .filter((score) => score && typeof score.id === 'string' && typeof score.data === 'string')
+    .map((score) => ({ ...score, size: score.data.length }));
+  await putScores(scores);
+  localStorage.removeItem(LEGACY_LIBRARY_KEY);
+  return scores.length;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  if (usage === undefined || quota === undefined) return null;
+  return { usage, quota };
+};
+
+export const formatStorageSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
@@ -0,0 +1,59 @@
+import { PianoSettings, SettingsPreset } from '../types/piano';
+import { validateSettings } from './settingsSchema';
+
+const PRESET_FORMAT = 'interactive-score-piano-preset';
+const PRESET_VERSION = 1;
+
+// 端末ごとの好みや接続機器に依存するのでプリセットには含めない
+const PRESET_EXCLUDED_KEYS: (keyof PianoSettings)[] = ['keyBindings', 'librarySort', 'midiOutputId'];
+
+interface PresetFile {
+  format: string;
+  version: number;
+  name: string;
+  settings: Partial<PianoSettings>;
+}
+
+export const pickPresetSettings = (settings: PianoSettings): Partial<PianoSettings> => {
+  const picked: Partial<PianoSettings> = { ...settings };
+  PRESET_EXCLUDED_KEYS.forEach((key) => delete picked[key]);
+  return picked;
+};
+
+// プリセットのすべての値が現在の設定と一致すれば適用中とみなす
+export const isPresetActive = (preset: SettingsPreset, settings: PianoSettings): boolean =>
+  (Object.keys(preset.settings) as (keyof PianoSettings)[]).every((key) => preset.settings[key] === settings[key]);
+
+export const serializePreset = (preset: SettingsPreset): string => {
+  const file: PresetFile = { format: PRESET_FORMAT, version: PRESET_VERSION, name: preset.name, settings: preset.settings };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses and validates a preset file. Throws with every problem listed when the file is not a valid preset,
+ * so a bad file is never applied partially.
+ */
+export const parsePresetFile = (text: string): Pick<SettingsPreset, 'name' | 'settings'> => {
+  let file: Partial<PresetFile>;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!file || typeof file !== 'object' || file.format !== PRESET_FORMAT) {
+    throw new Error('The file is not a settings preset of this app.');
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_VERSION) {
+    throw new Error('This preset was created by a newer version of the app.');
+  }
+  if (typeof file.name !== 'string' || !file.name.trim()) {
+    throw new Error('The preset has no name.');
+  }
+
+  const { settings, errors } = validateSettings(file.settings);
+  PRESET_EXCLUDED_KEYS.forEach((key) => {
+    if (key in settings) errors.push(`"${key}" cannot be part of a preset.`);
+  });
+  if (errors.length > 0) throw new Error(`Invalid preset: ${errors.join(' ')}`);
+  return { name: file.name.trim(), settings };
+};
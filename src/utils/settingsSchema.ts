@@ -0,0 +1,252 @@
+import { KeyBindings, PianoSettings, ShortcutAction } from '../types/piano';
+import { SHORTCUT_ACTIONS } from './keyboardShortcuts';
+import { SCORE_SORT_OPTIONS } from './scoreLibrary';
+import { KEYBOARD_MODE_OPTIONS } from './keyboardZones';
+
+// localStorage に保存する設定の形式。変えたら SETTINGS_MIGRATIONS に移行処理を足す
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+type SettingRule =
+  | { type: 'boolean' }
+  | { type: 'number'; min: number; max: number; integer?: boolean }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'string'; allowEmpty?: boolean }
+  | { type: 'keyBindings' };
+
+// 設定項目ごとの型と値の範囲。ControlPanel のスライダーの範囲と揃える
+export const SETTINGS_SCHEMA: Record<keyof PianoSettings, SettingRule> = {
+  showAllLines: { type: 'boolean' },
+  showGuideLines: { type: 'boolean' },
+  showMidiMatchLines: { type: 'boolean' },
+  soundType: { type: 'enum', values: ['piano', 'synth'] },
+  selectedSoundFontId: { type: 'string' },
+  gmProgram: { type: 'number', min: 0, max: 127, integer: true },
+  volume: { type: 'number', min: -60, max: 10 },
+  reverbEnabled: { type: 'boolean' },
+  chorusEnabled: { type: 'boolean' },
+  reverb: { type: 'number', min: 0, max: 1 },
+  transpose: { type: 'number', min: -12, max: 12, integer: true },
+  visualTranspose: { type: 'number', min: -12, max: 12, integer: true },
+  sustainEnabled: { type: 'boolean' },
+  velocitySensitivity: { type: 'number', min: 0, max: 1 },
+  highlightBlackKeys: { type: 'boolean' },
+  practiceHand: { type: 'enum', values: ['both', 'right', 'left'] },
+  metronomeSound: { type: 'enum', values: ['percussion', 'oscillator'] },
+  metronomeSubdivision: { type: 'number', min: 1, max: 4, integer: true },
+  metronomeCountInBars: { type: 'number', min: 0, max: 4, integer: true },
+  metronomeFollowScoreTempo: { type: 'boolean' },
+  autoScroll: { type: 'boolean' },
+  halfPageTurn: { type: 'boolean' },
+  keyBindings: { type: 'keyBindings' },
+  librarySort: { type: 'enum', values: SCORE_SORT_OPTIONS.map((option) => option.key) },
+  midiOutputId: { type: 'string', allowEmpty: true },
+  midiThru: { type: 'boolean' },
+  internalSynthEnabled: { type: 'boolean' },
+  keyboardMode: { type: 'enum', values: KEYBOARD_MODE_OPTIONS.map((option) => option.key) },
+  splitPoint: { type: 'number', min: 36, max: 84, integer: true },
+  primaryVolume: { type: 'number', min: 0, max: 1 },
+  secondaryGmProgram: { type: 'number', min: 0, max: 127, integer: true },
+  secondaryTranspose: { type: 'number', min: -24, max: 24, integer: true },
+  secondaryVolume: { type: 'number', min: 0, max: 1 }
+};
+
+const isSettingKey = (key: string): key is keyof PianoSettings => Object.prototype.hasOwnProperty.call(SETTINGS_SCHEMA, key);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isKeyComboList = (combos: unknown): combos is string[] =>
+  Array.isArray(combos) && combos.every((combo) => typeof combo === 'string');
+
+const isKeyBindings = (value: unknown) => {
+  if (!isPlainObject(value)) return false;
+  const actions = new Set<string>(SHORTCUT_ACTIONS.map((item) => item.action));
+  return Object.entries(value).every(([action, combos]) => actions.has(action) && isKeyComboList(combos));
+};
+
+/**
+ * Returns a description of why the value does not fit the rule, or null when it is valid.
+ */
+const checkValue = (rule: SettingRule, value: unknown): string | null => {
+  switch (rule.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+      if (rule.integer && !Number.isInteger(value)) return 'must be a whole number';
+      return value < rule.min || value > rule.max ? `must be between ${rule.min} and ${rule.max}` : null;
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value) ? null : `must be one of ${rule.values.join(', ')}`;
+    case 'string':
+      if (rule.allowEmpty) return typeof value === 'string' ? null : 'must be a string';
+      return typeof value === 'string' && value !== '' ? null : 'must be a non-empty string';
+    case 'keyBindings':
+      return isKeyBindings(value) ? null : 'must map shortcut actions to lists of keys';
+  }
+};
+
+export interface SettingsValidationResult {
+  settings: Partial<PianoSettings>;
+  errors: string[];
+}
+
+/**
+ * Checks every property of an untrusted object against SETTINGS_SCHEMA.
+ * Valid properties are returned in settings; unknown or invalid ones are listed in errors.
+ */
+export const validateSettings = (value: unknown): SettingsValidationResult => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { settings: {}, errors: ['Settings must be a JSON object.'] };
+  }
+
+  const settings: Record<string, unknown> = {};
+  const errors: string[] = [];
+  Object.entries(value).forEach(([key, item]) => {
+    if (!isSettingKey(key)) {
+      errors.push(`Unknown setting "${key}".`);
+      return;
+    }
+    const problem = checkValue(SETTINGS_SCHEMA[key], item);
+    if (problem) {
+      errors.push(`"${key}" ${problem}.`);
+      return;
+    }
+    settings[key] = item;
+  });
+  return { settings: settings as Partial<PianoSettings>, errors };
+};
+
+export interface SettingsRepair {
+  key: string;
+  message: string;
+}
+
+const describe = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+// 操作ごとに検査し、壊れた割り当てだけを既定値に戻す
+const repairKeyBindings = (value: unknown, fallback: KeyBindings): KeyBindings => {
+  const source = isPlainObject(value) ? value : {};
+  const repaired = { ...fallback };
+  SHORTCUT_ACTIONS.forEach(({ action }) => {
+    const combos = source[action];
+    if (isKeyComboList(combos)) repaired[action as ShortcutAction] = combos;
+  });
+  return repaired;
+};
+
+/**
+ * Makes a value fit its rule. Numbers (also numeric strings) are rounded and clamped into range,
+ * "true" / "false" strings become booleans, and anything else that does not fit is replaced by the fallback.
+ * Returns null as the message when the value was already valid.
+ */
+const repairValue = <K extends keyof PianoSettings>(
+  key: K,
+  value: unknown,
+  fallback: PianoSettings[K]
+): { value: PianoSettings[K]; message: string | null } => {
+  const rule = SETTINGS_SCHEMA[key];
+  const problem = checkValue(rule, value);
+  // キー割り当ては後から追加された操作にも既定のキーを補う
+  if (rule.type === 'keyBindings') {
+    return {
+      value: repairKeyBindings(value, fallback as KeyBindings) as PianoSettings[K],
+      message: problem ? 'invalid shortcut keys were reset to their defaults' : null
+    };
+  }
+  if (!problem) return { value: value as PianoSettings[K], message: null };
+
+  let repaired: unknown = fallback;
+  if (rule.type === 'number') {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number === 'number' && Number.isFinite(number)) {
+      const rounded = rule.integer ? Math.round(number) : number;
+      repaired = Math.min(rule.max, Math.max(rule.min, rounded));
+    }
+  } else if (rule.type === 'boolean' && (value === 'true' || value === 'false')) {
+    repaired = value === 'true';
+  }
+  return { value: repaired as PianoSettings[K], message: `${describe(value)} ${problem}, so it was changed to ${describe(repaired)}` };
+};
+
+/**
+ * Validates one value before it is stored, e.g. from updateSetting.
+ */
+export const sanitizeSetting = <K extends keyof PianoSettings>(
+  key: K,
+  value: unknown,
+  fallback: PianoSettings[K]
+): PianoSettings[K] => {
+  const result = repairValue(key, value, fallback);
+  if (result.message) console.warn(`Invalid value for setting "${key}": ${result.message}.`);
+  return result.value;
+};
+
+/**
+ * Repairs every field of a settings object. Missing fields get their defaults without a report;
+ * unknown fields are dropped.
+ */
+export const repairSettings = (value: unknown, defaults: PianoSettings): { settings: PianoSettings; repairs: SettingsRepair[] } => {
+  const source = isPlainObject(value) ? value : {};
+  const settings: PianoSettings = { ...defaults };
+  const repairs: SettingsRepair[] = [];
+
+  (Object.keys(SETTINGS_SCHEMA) as (keyof PianoSettings)[]).forEach(<K extends keyof PianoSettings>(key: K) => {
+    if (!(key in source)) return;
+    const result = repairValue(key, source[key], defaults[key]);
+    settings[key] = result.value;
+    if (result.message) repairs.push({ key, message: result.message });
+  });
+  Object.keys(source).filter((key) => !isSettingKey(key)).forEach((key) => {
+    repairs.push({ key, message: 'is not a known setting and was removed' });
+  });
+  return { settings, repairs };
+};
+
+// バージョン n の設定を n + 1 の形に変換する
+const SETTINGS_MIGRATIONS: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> = {
+  // バージョン 1 は形式番号を付けずに設定をそのまま保存していた。項目の形は変わっていない
+  1: (settings) => settings
+};
+
+interface StoredSettings {
+  version: number;
+  settings: PianoSettings;
+}
+
+export const serializeSettings = (settings: PianoSettings): string => {
+  const stored: StoredSettings = { version: SETTINGS_SCHEMA_VERSION, settings };
+  return JSON.stringify(stored);
+};
+
+export interface SettingsLoadResult {
+  settings: PianoSettings;
+  repairs: SettingsRepair[];
+  migratedFrom: number | null; // 古い形式から移行したときの元のバージョン
+}
+
+/**
+ * Reads settings saved by any version of the app: unwraps the versioned format (or treats a plain
+ * object as version 1), runs the migrations in order and repairs the result against the schema.
+ */
+export const loadSettings = (saved: unknown, defaults: PianoSettings): SettingsLoadResult => {
+  const isVersioned = isPlainObject(saved) && typeof saved.version === 'number' && isPlainObject(saved.settings);
+  let version = isVersioned ? saved.version as number : 1;
+  let raw: Record<string, unknown> = isVersioned ? saved.settings as Record<string, unknown> : isPlainObject(saved) ? saved : {};
+  const migratedFrom = version < SETTINGS_SCHEMA_VERSION ? version : null;
+
+  const repairs: SettingsRepair[] = [];
+  if (version > SETTINGS_SCHEMA_VERSION) {
+    repairs.push({ key: 'version', message: `settings were saved by a newer version (${version}) of the app and may not all be kept` });
+  }
+  while (version < SETTINGS_SCHEMA_VERSION) {
+    const migrate = SETTINGS_MIGRATIONS[version];
+    if (migrate) raw = migrate(raw);
+    version++;
+  }
+
+  const result = repairSettings(raw, defaults);
+  return { settings: result.settings, repairs: [...repairs, ...result.repairs], migratedFrom };
+};
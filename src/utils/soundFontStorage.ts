@@ -1,3 +1,5 @@
+import { openDb, runRequest, waitForTransaction, SOUND_FONT_STORE } from './appDatabase';
+
 export interface UserSoundFontMeta {
   id: string;
   name: string;
@@ -8,36 +10,11 @@ interface StoredSoundFont extends UserSoundFontMeta {
   data: ArrayBuffer;
 }
 
-const DB_NAME = 'interactive-score-piano';
-const STORE_NAME = 'user_soundfonts';
-const DB_VERSION = 1;
-
-const openDb = (): Promise<IDBDatabase> =>
-  new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onupgradeneeded = () => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
-    };
-
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
-  });
-
-const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
-  new Promise((resolve, reject) => {
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
-  });
-
 export const listUserSoundFonts = async (): Promise<UserSoundFontMeta[]> => {
   const db = await openDb();
   try {
-    const tx = db.transaction(STORE_NAME, 'readonly');
-    const store = tx.objectStore(STORE_NAME);
+    const tx = db.transaction(SOUND_FONT_STORE, 'readonly');
+    const store = tx.objectStore(SOUND_FONT_STORE);
     const rows = await runRequest(store.getAll()) as StoredSoundFont[];
     return rows
       .map(({ id, name, createdAt }) => ({ id, name, createdAt }))
@@ -59,8 +36,8 @@ export const saveUserSoundFont = async (file: File): Promise<UserSoundFontMeta>
 
   const db = await openDb();
   try {
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const store = tx.objectStore(STORE_NAME);
+    const tx = db.transaction(SOUND_FONT_STORE, 'readwrite');
+    const store = tx.objectStore(SOUND_FONT_STORE);
     await runRequest(store.put(record));
     return { id: record.id, name: record.name, createdAt: record.createdAt };
   } finally {
@@ -71,8 +48,8 @@ export const saveUserSoundFont = async (file: File): Promise<UserSoundFontMeta>
 export const getUserSoundFontData = async (id: string): Promise<ArrayBuffer | null> => {
   const db = await openDb();
   try {
-    const tx = db.transaction(STORE_NAME, 'readonly');
-    const store = tx.objectStore(STORE_NAME);
+    const tx = db.transaction(SOUND_FONT_STORE, 'readonly');
+    const store = tx.objectStore(SOUND_FONT_STORE);
     const record = await runRequest(store.get(id)) as StoredSoundFont | undefined;
     return record?.data ?? null;
   } finally {
@@ -83,10 +60,31 @@ export const getUserSoundFontData = async (id: string): Promise<ArrayBuffer | nu
 export const deleteUserSoundFont = async (id: string): Promise<void> => {
   const db = await openDb();
   try {
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const store = tx.objectStore(STORE_NAME);
+    const tx = db.transaction(SOUND_FONT_STORE, 'readwrite');
+    const store = tx.objectStore(SOUND_FONT_STORE);
     await runRequest(store.delete(id));
   } finally {
     db.close();
   }
 };
+
+// バックアップからの復元用。ID と登録日時をそのまま保つ。replaceAll なら既存のものと 1 つのトランザクションで入れ替える
+export const restoreUserSoundFonts = async (
+  fonts: { meta: UserSoundFontMeta; data: ArrayBuffer }[],
+  replaceAll: boolean
+): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(SOUND_FONT_STORE, 'readwrite');
+    const done = waitForTransaction(tx);
+    const store = tx.objectStore(SOUND_FONT_STORE);
+    if (replaceAll) store.clear();
+    fonts.forEach(({ meta, data }) => {
+      const record: StoredSoundFont = { id: meta.id, name: meta.name, createdAt: meta.createdAt, data };
+      store.put(record);
+    });
+    await done;
+  } finally {
+    db.close();
+  }
+};